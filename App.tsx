@@ -3,32 +3,59 @@ import { CoinList } from './components/CoinList';
 import { TradingChart } from './components/TradingChart';
 import { SimulationControl } from './components/SimulationControl';
 import { ShareModal } from './components/ShareModal';
-import { Coin, DataPoint, SimulationConfig, TimeFrame, Volatility } from './types';
-import { Menu, X, CloudLightning, Database, Share2 } from 'lucide-react';
+import { PendingBanner, ScheduledQueue } from './components/ScheduledQueue';
+import { Coin, CorrelatedFollower, DataPoint, Drawing, IndicatorConfig, KlineInterval, MarketProviderId, PauseMode, SimulationConfig, SimulationDraft, TickerStats, TimeFrame, TriggerType, Volatility } from './types';
+import { Menu, X, CloudLightning, Database, Share2, Circle, Square, RefreshCw } from 'lucide-react';
 import { api } from './services/api';
+import { COINS } from './services/coins';
+import { decodeIndicators } from './services/indicators';
 import { storage } from './services/storage';
+import { appendPoints } from './services/series';
+import { HISTORY_RESOLUTIONS, historyRefresh, initialTimeFrame, KLINE_INTERVAL_MS, klinesBefore, stitchHistory } from './services/candles';
 import { supabase } from './services/supabaseClient';
-
-const COINS: Coin[] = [
-  { id: 'btc', symbol: 'BTC', name: 'Bitcoin', color: '#f59e0b', basePrice: 65000 },
-  { id: 'eth', symbol: 'ETH', name: 'Ethereum', color: '#6366f1', basePrice: 3400 },
-  { id: 'sol', symbol: 'SOL', name: 'Solana', color: '#14b8a6', basePrice: 145 },
-  { id: 'bnb', symbol: 'BNB', name: 'Binance Coin', color: '#eab308', basePrice: 590 },
-  { id: 'doge', symbol: 'DOGE', name: 'Dogecoin', color: '#fbbf24', basePrice: 0.16 },
-  { id: 'xrp', symbol: 'XRP', name: 'Ripple', color: '#3b82f6', basePrice: 0.60 },
-  { id: 'ada', symbol: 'ADA', name: 'Cardano', color: '#2563eb', basePrice: 0.45 },
-  { id: 'ton', symbol: 'TON', name: 'Toncoin', color: '#0098ea', basePrice: 7.2 },
-  { id: 'avax', symbol: 'AVAX', name: 'Avalanche', color: '#e84142', basePrice: 28 },
-  { id: 'shib', symbol: 'SHIB', name: 'Shiba Inu', color: '#fca5a5', basePrice: 0.000018 },
-  { id: 'dot', symbol: 'DOT', name: 'Polkadot', color: '#e6007a', basePrice: 6.5 },
-  { id: 'link', symbol: 'LINK', name: 'Chainlink', color: '#2a5ada', basePrice: 14 },
-  { id: 'matic', symbol: 'MATIC', name: 'Polygon', color: '#8247e5', basePrice: 0.55 },
-  { id: 'uni', symbol: 'UNI', name: 'Uniswap', color: '#ff007a', basePrice: 8 },
-  { id: 'ltc', symbol: 'LTC', name: 'Litecoin', color: '#345d9d', basePrice: 70 },
-  { id: 'near', symbol: 'NEAR', name: 'NEAR Protocol', color: '#000000', basePrice: 5.5 },
-  { id: 'atom', symbol: 'ATOM', name: 'Cosmos', color: '#2e3148', basePrice: 6.8 },
-  { id: 'pepe', symbol: 'PEPE', name: 'Pepe', color: '#4ade80', basePrice: 0.000008 },
-];
+import { DEFAULT_STREAM_URL, MarketStream } from './services/marketStream';
+import { createProviderStream, isMarketProviderId, marketProviders } from './services/marketProviders';
+import { DEFAULT_FILE_URL } from './services/fileProvider';
+import { DEFAULT_FIXTURE_URL } from './services/replayProvider';
+import { klineCache, KlineCacheKey } from './services/klineCache';
+import { isRateLimited, retryAfterOf } from './services/marketData';
+import { marketRecorder } from './services/marketRecorder';
+import {
+  createFollowerEngine,
+  createRevertEngine,
+  createSimulationEngine,
+  estimateBaseVolume,
+  FollowerEngine,
+  randomSeed,
+  resolveBaseVolume,
+  resolveRevertSettings,
+  RevertEngine,
+  seedFromString,
+  SimulationEngine,
+  TICK_MS
+} from './services/simulationEngine';
+import {
+  CLAIM_STALE_MS,
+  HEARTBEAT_MS,
+  pointFromRow,
+  pointToRow,
+  simulationFromRow,
+  SimulationPointRow,
+  SimulationRow,
+  simulationToRow,
+  simulationUpdateRow
+} from './services/simulationRows';
+import {
+  extendSimulation,
+  getProjectedEndTime,
+  isTriggerMet,
+  pauseSimulation,
+  resumeSimulation,
+  retargetSimulation,
+  setSimulationVolatility,
+  startRevert,
+  startScheduledSimulation
+} from './services/simulationCommands';
 
 interface WidgetConfig {
     enabled: boolean;
@@ -42,20 +69,90 @@ interface WidgetConfig {
     fillOpacity: number;
 }
 
+/** Points kept in memory per chart / per simulated coin; also caps how far back the chart can scroll */
+const MAX_POINTS = Number(import.meta.env.VITE_MAX_HISTORY_POINTS) || 50000;
+
+/** Klines per history request (the Binance maximum) */
+const HISTORY_PAGE_SIZE = 1000;
+
+/** How often real market prices are refreshed for simulated / reverting coins */
+const PRICE_REFRESH_MS = 5000;
+
+/** Binance combined-stream endpoint; point it at a local stand-in for development */
+const MARKET_STREAM_URL = import.meta.env.VITE_MARKET_STREAM_URL || DEFAULT_STREAM_URL;
+
+/** Where the file provider reads recorded prices; {symbol} and {id} are filled in per coin */
+const MARKET_FILE_URL = import.meta.env.VITE_MARKET_FILE_URL || DEFAULT_FILE_URL;
+
+/** Recorded fixture for the replay provider, and how many times real speed it plays at */
+const MARKET_FIXTURE_URL = import.meta.env.VITE_MARKET_FIXTURE_URL || DEFAULT_FIXTURE_URL;
+const REPLAY_SPEED = Number(new URLSearchParams(window.location.search).get('replay_speed') || import.meta.env.VITE_REPLAY_SPEED) || 1;
+
+// Market data source: ?provider= in the URL, then the user's pick, then the build default
+marketProviders.configure({
+  provider: [new URLSearchParams(window.location.search).get('provider'), storage.getMarketProvider(), import.meta.env.VITE_MARKET_PROVIDER]
+    .find(isMarketProviderId) ?? MarketProviderId.BINANCE,
+  streamUrl: MARKET_STREAM_URL,
+  fileUrl: MARKET_FILE_URL,
+  fixture: MARKET_FIXTURE_URL,
+  replaySpeed: REPLAY_SPEED
+});
+
+/** How often the list's 24h change and volume are refreshed */
+const STATS_REFRESH_MS = 60000;
+
+/** Wait before reloading history the source rate limited, unless it said how long */
+const HISTORY_RETRY_MS = 10000;
+
+/** How long the init waits for the stream before fetching list prices over REST */
+const STREAM_GRACE_MS = 3000;
+
+/** A coin whose ticker row was simulated this recently keeps showing that price in the list */
+const SIMULATED_TICKER_HOLD_MS = 10000;
+
+/** Leave tick generation to the headless runner (server/runner.ts) instead of this tab */
+const RUN_ON_SERVER = import.meta.env.VITE_SIMULATION_RUNNER === 'server';
+
+// Claim holder name of this browser, survives reloads so the claim does too
+const CONTROLLER_ID = storage.getControllerId();
+
 const App: React.FC = () => {
   const [selectedCoin, setSelectedCoin] = useState<Coin>(COINS[0]);
   const [chartData, setChartData] = useState<DataPoint[]>([]);
+  // Ticks are appended to chartData in place; this tells the chart to redraw
+  const [chartVersion, setChartVersion] = useState(0);
   const [currentPrices, setCurrentPrices] = useState<Record<string, number>>({});
-  const [simulation, setSimulation] = useState<SimulationConfig | null>(null);
+  // Concurrent simulations, keyed by coin id
+  const [simulations, setSimulations] = useState<Record<string, SimulationConfig>>({});
+  // Simulations waiting for their trigger
+  const [scheduled, setScheduled] = useState<SimulationConfig[]>([]);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  // Scroll-back paging of the selected coin's history
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const olderHistoryRef = useRef({ loading: false, exhausted: false });
+  // Coin whose history the source rate limited; the load is retried on a timer
+  const [rateLimitedCoinId, setRateLimitedCoinId] = useState<string | null>(null);
+  const historyRetryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Coin the chart data belongs to
+  const chartCoinRef = useRef<string | null>(null);
+  const timeFrameRef = useRef<TimeFrame>(TimeFrame.H4);
+  // Kline interval of the finest real history at the head of the chart
+  const headIntervalRef = useRef(KLINE_INTERVAL_MS['1m']);
   const [isLive, setIsLive] = useState(true);
+  const [marketProvider, setMarketProvider] = useState<MarketProviderId>(() => marketProviders.getGlobal());
+  const [isRecording, setIsRecording] = useState(false);
+  const [tickerStats, setTickerStats] = useState<Record<string, TickerStats>>({});
   const [activeTimeFrame, setActiveTimeFrame] = useState<TimeFrame>(TimeFrame.H4);
-  const [isReverting, setIsReverting] = useState(false);
-  
+  // A widget shows the sharer's indicators (the `ind` param) or none, never what this browser saved
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>(() =>
+    new URLSearchParams(window.location.search).get('mode') === 'widget' ? [] : storage.getIndicators());
+  // Local drawings of the selected coin; ones attached to its simulation live on the config
+  const [drawings, setDrawings] = useState<Drawing[]>([]);
+
   // Widget / Share Logic
-  const [widgetConfig, setWidgetConfig] = useState<WidgetConfig>({ 
-      enabled: false, 
+  const [widgetConfig, setWidgetConfig] = useState<WidgetConfig>({
+      enabled: false,
       bgColor: 'transparent',
       showHeader: true,
       showTimeframes: false,
@@ -65,82 +162,261 @@ const App: React.FC = () => {
   });
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
 
-  // Controller State
-  const [isController, setIsController] = useState(false);
-
   // Refs
   const chartDataRef = useRef<DataPoint[]>([]);
-  const simulationRef = useRef<SimulationConfig | null>(null);
+  const simulationsRef = useRef<Record<string, SimulationConfig>>({});
   const selectedCoinRef = useRef<Coin>(COINS[0]);
-  const realPriceRef = useRef<number>(0);
-  const isControllerRef = useRef(false);
+  const loadingCoinRef = useRef<string | null>(null);
+  const currentPricesRef = useRef<Record<string, number>>({});
+  const realPricesRef = useRef<Record<string, number>>({});
+  // Coins whose simulation this tab started and may command (the rest are only viewed)
+  const controlledRef = useRef<Set<string>>(new Set());
+  // Ids of controlled simulations whose ticks currently come from a headless runner
+  const remoteRef = useRef<Set<string>>(new Set());
+  const lastClaimRef = useRef(0);
+  const lastPriceRefreshRef = useRef(0);
+  const marketStreamRef = useRef<MarketStream | null>(null);
+  // Streamed or polled real prices not yet shown in the list, flushed once per engine tick
+  const listPricesRef = useRef<Record<string, number>>({});
+  // Last simulated ticker row per coin, including simulations this tab does not follow
+  const simulatedTickerAtRef = useRef<Record<string, number>>({});
+  // Streamed 1m kline per coin and the volume traded since the last live tick
+  const liveVolumeRef = useRef<Record<string, { klineTime: number; klineVolume: number; pending: number }>>({});
+  const enginesRef = useRef<Record<string, SimulationEngine>>({});
+  const followerEnginesRef = useRef<Record<string, FollowerEngine>>({});
+  // Paths back to the market, for locally ticked simulations and their followers
+  const revertEnginesRef = useRef<Record<string, RevertEngine>>({});
+  // Ticks generated for each controlled coin, so its chart survives coin switches
+  const simPointsRef = useRef<Record<string, DataPoint[]>>({});
+  const scheduledRef = useRef<SimulationConfig[]>([]);
+  // Ids of scheduled simulations this tab will start when they trigger
+  const controlledScheduledRef = useRef<Set<string>>(new Set());
+
+  const simulation = simulations[selectedCoin.id] ?? null;
+  const pendingSimulation = scheduled.find(s => s.coinId === selectedCoin.id);
+
+  useEffect(() => {
+    currentPricesRef.current = currentPrices;
+  }, [currentPrices]);
+
+  // Controlled simulation whose ticks this tab generates itself
+  const ticksLocally = (coinId: string) => {
+    const sim = simulationsRef.current[coinId];
+    return !!sim && controlledRef.current.has(coinId) && !remoteRef.current.has(sim.id);
+  };
+
+  // Locally ticked simulation that drags `coinId` along as a correlated follower
+  const leaderOf = (coinId: string): SimulationConfig | undefined => {
+    if (simulationsRef.current[coinId]) return undefined; // Own simulation wins
+    return Object.values(simulationsRef.current).find(s =>
+      ticksLocally(s.coinId) && s.followers?.some(f => f.coinId === coinId)
+    );
+  };
+
+  const updateSimulations = (next: Record<string, SimulationConfig>) => {
+    simulationsRef.current = next;
+    setSimulations(next);
+  };
+
+  const persistControlledSimulations = () => {
+    if (widgetConfig.enabled) return;
+    const controlled = Object.values(simulationsRef.current).filter(s => controlledRef.current.has(s.coinId));
+    if (controlled.length > 0) {
+      storage.saveSimulations(controlled);
+    } else {
+      storage.clearSimulations();
+    }
+  };
+
+  const updateScheduled = (next: SimulationConfig[]) => {
+    scheduledRef.current = next;
+    setScheduled(next);
+  };
+
+  const persistScheduledSimulations = () => {
+    if (widgetConfig.enabled) return;
+    storage.saveScheduledSimulations(scheduledRef.current.filter(s => controlledScheduledRef.current.has(s.id)));
+  };
 
   // --- Initialization & Data Fetching ---
 
+  // Cache series of the coin's source; generated and replayed (time-shifted) data is not kept
+  const historyCacheKey = (coin: Coin, interval: KlineInterval): KlineCacheKey | null => {
+    const provider = marketProviders.forCoin(coin).id;
+    if (provider === MarketProviderId.MOCK || provider === MarketProviderId.REPLAY) return null;
+    return { provider, symbol: coin.symbol, interval };
+  };
+
   const loadMarketData = async (coin: Coin) => {
     setIsLoading(true);
+    loadingCoinRef.current = coin.id;
+    olderHistoryRef.current = { loading: false, exhausted: false };
+    setIsLoadingOlder(false);
+    if (historyRetryRef.current) {
+      clearTimeout(historyRetryRef.current);
+      historyRetryRef.current = null;
+    }
     try {
-      // 1. Fetch Real History (Base)
-      const history = await api.getHistory(coin.symbol, 2000);
-      
+      const { interval, limit } = HISTORY_RESOLUTIONS[timeFrameRef.current];
+      const intervalMs = KLINE_INTERVAL_MS[interval];
+      const cacheKey = historyCacheKey(coin, interval);
+      const sim = simulationsRef.current[coin.id];
+      const leader = leaderOf(coin.id);
+
+      // Real history joined with the simulated path this coin shows, if any
+      const compose = (history: DataPoint[], simPoints: DataPoint[]): DataPoint[] => {
+          if (sim && sim.active) {
+              const cleanHistory = klinesBefore(history, sim.startTime, intervalMs);
+              if (simPoints.length > 0) return [...cleanHistory, ...simPoints].slice(-MAX_POINTS);
+              return ticksLocally(coin.id) ? cleanHistory : history;
+          }
+          if (leader) {
+              // Derived moves from a correlated simulation on another coin
+              return [...klinesBefore(history, leader.startTime, intervalMs), ...(simPointsRef.current[coin.id] ?? [])].slice(-MAX_POINTS);
+          }
+          return history;
+      };
+
+      const show = (data: DataPoint[]) => {
+          setChartData(data);
+          chartDataRef.current = data;
+          chartCoinRef.current = coin.id;
+          if (data.length > 0) {
+            const lastPrice = data[data.length - 1].price;
+            setCurrentPrices(prev => ({
+                ...prev,
+                [coin.id]: lastPrice
+            }));
+          }
+      };
+
+      // 1. Cached history (and simulated path) right away, while the fresh data loads
+      const cached = cacheKey ? await klineCache.getKlines(cacheKey) : [];
+      let simPoints: DataPoint[] = sim?.active && ticksLocally(coin.id) ? simPointsRef.current[coin.id] ?? [] : [];
+      if (sim?.active && simPoints.length === 0) simPoints = await klineCache.getSimulationPoints(sim.id);
+      if (selectedCoinRef.current.id !== coin.id) return;
+      if (cached.length > 0) {
+          headIntervalRef.current = intervalMs;
+          show(compose(cached, simPoints));
+          setIsLoading(false);
+      }
+
+      // 2. Fetch Real History (Base) at the resolution of the current timeframe, only past the cached klines
+      const { base, fetchLimit, replaceCache } = historyRefresh(cached, limit, intervalMs, Date.now());
+      let fetched: DataPoint[];
+      try {
+          fetched = await api.getHistory(coin, fetchLimit, { interval });
+      } catch (error) {
+          if (!isRateLimited(error)) throw error;
+          // Rate limited: the cached chart stays up instead of mock data until a retry gets through
+          if (selectedCoinRef.current.id !== coin.id) return;
+          if (chartCoinRef.current !== coin.id) show([]);
+          setRateLimitedCoinId(coin.id);
+          retryHistoryLoad(coin, retryAfterOf(error));
+          return;
+      }
+      setRateLimitedCoinId(id => id === coin.id ? null : id);
+      if (cacheKey) klineCache.putKlines(cacheKey, fetched, { replace: replaceCache });
+      // Offline the cache is all there is
+      const history = fetched.length > 0 ? stitchHistory(base, fetched, intervalMs, intervalMs).slice(-MAX_POINTS) : cached;
+      headIntervalRef.current = intervalMs;
+
+      // Another coin was selected while we were waiting
+      if (selectedCoinRef.current.id !== coin.id) return;
+
       if (history.length > 0) {
-          realPriceRef.current = history[history.length - 1].price;
+          realPricesRef.current[coin.id] = history[history.length - 1].price;
       }
-      
-      let finalData = history;
-      
-      // 2. Check for Active Simulation
-      const sim = simulationRef.current;
-      
+
+      // 3. Check for Active Simulation
       if (sim && sim.active && history.length > 0) {
-          let dbPoints: DataPoint[] = [];
-          if (sim.supabaseId) {
-              dbPoints = await api.getSimulationPoints(sim.supabaseId);
+          let fresh: DataPoint[] = ticksLocally(coin.id) ? simPointsRef.current[coin.id] ?? [] : [];
+          if (fresh.length === 0 && sim.supabaseId) {
+              fresh = await api.getSimulationPoints(sim.supabaseId);
+              if (selectedCoinRef.current.id !== coin.id) return;
           }
-
-          const splitIndex = history.findIndex(p => p.time >= sim.startTime);
-          const cleanHistory = splitIndex !== -1 ? history.slice(0, splitIndex) : history;
-
-          if (dbPoints.length > 0) {
-              finalData = [...cleanHistory, ...dbPoints];
-          } else if (isControllerRef.current) {
-              finalData = cleanHistory;
+          // Nothing fresh (offline): the cached path stands in
+          if (fresh.length > 0) {
+              simPoints = fresh;
+              klineCache.putSimulationPoints(sim.id, fresh, MAX_POINTS);
           }
       } else if (history.length === 0) {
-          generateMockHistory(coin);
+          await generateMockHistory(coin);
           return;
       }
 
-      setChartData(finalData);
-      chartDataRef.current = finalData;
-      
-      if (finalData.length > 0) {
-        const lastPrice = finalData[finalData.length - 1].price;
-        setCurrentPrices(prev => ({
-            ...prev,
-            [coin.id]: lastPrice
-        }));
-      }
+      show(compose(history, simPoints));
 
     } catch (e) {
       console.error("Error loading market data", e);
-      generateMockHistory(coin);
+      await generateMockHistory(coin);
     } finally {
-      setIsLoading(false);
+      if (loadingCoinRef.current === coin.id) {
+        loadingCoinRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
-  const generateMockHistory = (coin: Coin) => {
-      const initialData: DataPoint[] = [];
-      const now = Date.now();
-      let price = coin.basePrice;
-      realPriceRef.current = price;
-      for (let i = 1000; i > 0; i--) {
-        price = price + (Math.random() - 0.5) * (price * 0.002);
-        initialData.push({ time: now - i * 60000, price });
-      }
+  const retryHistoryLoad = (coin: Coin, delayMs = HISTORY_RETRY_MS) => {
+    historyRetryRef.current = setTimeout(() => {
+        historyRetryRef.current = null;
+        if (selectedCoinRef.current.id === coin.id && !loadingCoinRef.current) loadMarketData(coin);
+    }, delayMs);
+  };
+
+  // Prepends the page of real history before the oldest loaded point (asked for by the chart)
+  const loadOlderHistory = async () => {
+    const coin = selectedCoinRef.current;
+    const state = olderHistoryRef.current;
+    const oldest = chartDataRef.current[0]?.time;
+    if (state.loading || state.exhausted || loadingCoinRef.current || oldest == null) return;
+    if (chartDataRef.current.length >= MAX_POINTS) {
+        state.exhausted = true;
+        return;
+    }
+
+    state.loading = true;
+    setIsLoadingOlder(true);
+    try {
+        const { interval } = HISTORY_RESOLUTIONS[timeFrameRef.current];
+        const page = await api.getHistory(coin, HISTORY_PAGE_SIZE, { interval, endTime: oldest - 1 });
+        const cacheKey = historyCacheKey(coin, interval);
+        if (cacheKey) klineCache.putKlines(cacheKey, page);
+        // Switched coins meanwhile: the state belongs to the new coin now
+        if (selectedCoinRef.current.id !== coin.id || olderHistoryRef.current !== state) return;
+
+        const current = chartDataRef.current;
+        const older = page.filter(p => p.time < current[0].time);
+        // Nothing before this (listing date, mock data or the API is unreachable)
+        if (older.length === 0) {
+            state.exhausted = true;
+            return;
+        }
+        const room = MAX_POINTS - current.length;
+        if (older.length >= room) state.exhausted = true;
+        const merged = [...older.slice(-room), ...current];
+        chartDataRef.current = merged;
+        setChartData(merged);
+    } catch (error) {
+        // Rate limited: the page is asked for again on the next pan
+        if (!isRateLimited(error)) throw error;
+    } finally {
+        state.loading = false;
+        if (olderHistoryRef.current === state) setIsLoadingOlder(false);
+    }
+  };
+
+  // The coin's source failed: deterministic demo data at the same resolution instead
+  const generateMockHistory = async (coin: Coin) => {
+      const { interval, limit } = HISTORY_RESOLUTIONS[timeFrameRef.current];
+      const initialData = await marketProviders.get(MarketProviderId.MOCK).getHistory(coin, { interval, limit });
+      if (selectedCoinRef.current.id !== coin.id) return;
+      realPricesRef.current[coin.id] = initialData[initialData.length - 1]?.price ?? coin.basePrice;
+      headIntervalRef.current = KLINE_INTERVAL_MS[interval];
       setChartData(initialData);
       chartDataRef.current = initialData;
+      chartCoinRef.current = coin.id;
   };
 
   useEffect(() => {
@@ -149,7 +425,7 @@ const App: React.FC = () => {
     const mode = params.get('mode');
     const coinId = params.get('coin');
     const simId = params.get('sim_id');
-    
+
     // Parse Widget Styles
     const isWidget = mode === 'widget';
     if (isWidget) {
@@ -164,7 +440,16 @@ const App: React.FC = () => {
             strokeWidth: parseFloat(params.get('w_strk') || '1.5'),
             fillOpacity: parseFloat(params.get('w_fill') || '0.15')
         });
-        setActiveTimeFrame(TimeFrame.H1);
+    }
+    // The ref too: history loads read the resolution from it
+    const timeFrame = initialTimeFrame(params);
+    setActiveTimeFrame(timeFrame);
+    timeFrameRef.current = timeFrame;
+
+    // Indicators of a shared link replace the local ones (without saving them)
+    const indicatorParam = params.get('ind');
+    if (indicatorParam !== null) {
+        setIndicators(decodeIndicators(indicatorParam));
     }
 
     // 2. Resolve Coin
@@ -176,6 +461,14 @@ const App: React.FC = () => {
     setSelectedCoin(initialCoin);
     selectedCoinRef.current = initialCoin;
 
+    const selectCoin = (id: string) => {
+        const linkedCoin = COINS.find(c => c.id === id);
+        if (linkedCoin) {
+            setSelectedCoin(linkedCoin);
+            selectedCoinRef.current = linkedCoin;
+        }
+    };
+
     const init = async () => {
         // 3. Resolve Simulation
         if (simId) {
@@ -183,41 +476,20 @@ const App: React.FC = () => {
                 .from('simulations')
                 .select('*')
                 .eq('id', simId)
-                .single();
-            
+                .single<SimulationRow>();
+
             if (simData && !error) {
-                let vol = Volatility.MEDIUM;
-                if (simData.volatility === 'low') vol = Volatility.LOW;
-                if (simData.volatility === 'high') vol = Volatility.HIGH;
-
-                const dbSim: SimulationConfig = {
-                    id: simData.id,
-                    supabaseId: simData.id,
-                    active: simData.is_active,
-                    coinId: simData.coin_id,
-                    startPrice: parseFloat(simData.start_price),
-                    targetPrice: parseFloat(simData.target_price),
-                    startTime: parseInt(simData.start_time),
-                    durationMs: parseInt(simData.duration_ms),
-                    endTime: parseInt(simData.end_time),
-                    volatility: vol,
-                    createdAt: new Date(simData.created_at).getTime()
-                };
-
-                if (Date.now() < dbSim.endTime + 60000) {
-                     setSimulation(dbSim);
-                     simulationRef.current = dbSim;
-                     setIsController(false);
-                     isControllerRef.current = false;
-                     
-                     const linkedCoin = COINS.find(c => c.id === dbSim.coinId);
-                     if (linkedCoin) {
-                         setSelectedCoin(linkedCoin);
-                         selectedCoinRef.current = linkedCoin;
-                     }
+                const dbSim = simulationFromRow(simData);
+
+                if (dbSim.pending && dbSim.active) {
+                     updateScheduled([dbSim]);
+                     selectCoin(dbSim.coinId);
+                } else if (Date.now() < getProjectedEndTime(dbSim, Date.now()) + 60000) {
+                     updateSimulations({ [dbSim.coinId]: dbSim });
+                     selectCoin(dbSim.coinId);
                 }
             }
-        } 
+        }
         else if (params.get('sim_active') === 'true') {
             const startPrice = parseFloat(params.get('sim_start') || '0');
             const targetPrice = parseFloat(params.get('sim_target') || '0');
@@ -239,29 +511,30 @@ const App: React.FC = () => {
             };
 
             if (Date.now() < urlSim.endTime + 60000) {
-                 setSimulation(urlSim);
-                 simulationRef.current = urlSim;
-                 setIsController(false);
-                 isControllerRef.current = false;
+                 updateSimulations({ [urlSim.coinId]: urlSim });
             }
-        } 
+        }
         else if (!isWidget) {
-            const savedSim = storage.getSimulation();
-            if (savedSim) {
-                const now = Date.now();
-                if (now < savedSim.endTime + 60000) { 
-                    setSimulation(savedSim);
-                    simulationRef.current = savedSim;
-                    setIsController(true);
-                    isControllerRef.current = true;
-
-                    const coin = COINS.find(c => c.id === savedSim.coinId) || initialCoin;
-                    setSelectedCoin(coin);
-                    selectedCoinRef.current = coin;
+            const now = Date.now();
+            const restored: Record<string, SimulationConfig> = {};
+            storage.getSimulations().forEach(savedSim => {
+                if (now < getProjectedEndTime(savedSim, now) + 60000) {
+                    restored[savedSim.coinId] = savedSim;
+                    controlledRef.current.add(savedSim.coinId);
                 } else {
-                    storage.clearSimulation();
                     storage.archiveSimulation(savedSim);
                 }
+            });
+            updateSimulations(restored);
+            persistControlledSimulations();
+
+            const queued = storage.getScheduledSimulations();
+            queued.forEach(s => controlledScheduledRef.current.add(s.id));
+            updateScheduled(queued);
+
+            const restoredCoins = Object.keys(restored);
+            if (restoredCoins.length > 0 && !restored[initialCoin.id] && !coinId) {
+                selectCoin(restoredCoins[0]);
             }
         }
 
@@ -283,27 +556,80 @@ const App: React.FC = () => {
             }
         });
 
-        // If ticker data missing/stale, fetch from API
-        COINS.forEach(async (c) => {
-           if (!currentPrices[c.id]) {
-               const price = await api.getPrice(c.symbol);
-               if (price) {
-                   setCurrentPrices(prev => ({ ...prev, [c.id]: price }));
-               }
-           }
-        });
+        // No stream to fill the list: fall back to batched REST prices
+        setTimeout(() => {
+           if (marketStreamRef.current?.isConnected()) return;
+           refreshListPrices();
+        }, STREAM_GRACE_MS);
     }
   }, []);
 
+  // 24h change and volume for the list, one batched request a minute
+  useEffect(() => {
+    if (widgetConfig.enabled) return;
+    const refresh = () => api.get24hStats(COINS).then(stats => setTickerStats(prev => ({ ...prev, ...stats })));
+    refresh();
+    const timer = setInterval(refresh, STATS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [widgetConfig.enabled, marketProvider]);
+
+  // --- Live Market Stream ---
+  useEffect(() => {
+    const stream = createProviderStream({
+        onPrice: (symbol, price) => {
+            const coin = COINS.find(c => c.symbol === symbol);
+            if (!coin || !(price > 0)) return;
+            realPricesRef.current[coin.id] = price;
+            listPricesRef.current[coin.id] = price;
+        },
+        onKline: (symbol, kline) => {
+            const coin = COINS.find(c => c.symbol === symbol);
+            if (!coin) return;
+            const volume = kline.volume ?? 0;
+            const last = liveVolumeRef.current[coin.id];
+            // The first kline seen is only a baseline, its earlier volume predates the live ticks
+            const traded = !last ? 0 : last.klineTime === kline.time ? volume - last.klineVolume : volume;
+            liveVolumeRef.current[coin.id] = {
+                klineTime: kline.time,
+                klineVolume: volume,
+                pending: (last?.pending ?? 0) + Math.max(0, traded)
+            };
+        }
+    });
+    marketStreamRef.current = stream;
+    return () => {
+        stream.close();
+        marketStreamRef.current = null;
+    };
+  }, []);
+
+  // The list streams every coin, the coin in view also its trades and klines
+  useEffect(() => {
+    liveVolumeRef.current = {};
+    marketStreamRef.current?.setSubscriptions({
+        tickers: widgetConfig.enabled ? [] : COINS.map(c => c.symbol),
+        trades: [selectedCoin.symbol],
+        klines: [selectedCoin.symbol]
+    });
+  }, [selectedCoin.symbol, widgetConfig.enabled, marketProvider]);
+
   // --- Realtime Subscription for Viewers ---
+  // Everything not ticked by this tab, including own simulations left to a runner
+  const isViewed = (sim: SimulationConfig) => remoteRef.current.has(sim.id) || (sim.pending
+    ? !controlledScheduledRef.current.has(sim.id)
+    : !controlledRef.current.has(sim.coinId));
+
+  const viewedSimulationIds = [...Object.values(simulations), ...scheduled]
+    .filter(s => s.supabaseId && isViewed(s))
+    .map(s => s.supabaseId)
+    .join(',');
+
   useEffect(() => {
-    // 1. Simulation Points Subscription
-    const sim = simulationRef.current;
-    let pointsChannel = null;
-    
-    if (sim?.supabaseId && !isControllerRef.current) {
-        pointsChannel = supabase.channel('sim-updates')
-            .on(
+    // 1. Simulation Points Subscription (one channel per viewed simulation)
+    const pointsChannels = [...Object.values(simulationsRef.current), ...scheduledRef.current]
+        .filter(sim => sim.supabaseId && isViewed(sim))
+        .map(sim => supabase.channel(`sim-updates-${sim.supabaseId}`)
+            .on<SimulationPointRow>(
                 'postgres_changes',
                 {
                     event: 'INSERT',
@@ -312,26 +638,53 @@ const App: React.FC = () => {
                     filter: `simulation_id=eq.${sim.supabaseId}`
                 },
                 (payload) => {
-                    const newPoint: DataPoint = {
-                        time: parseInt(payload.new.time),
-                        price: parseFloat(payload.new.price),
-                        isSimulation: true
-                    };
-                    
-                    setChartData(prev => {
-                        const newData = [...prev, newPoint].slice(-3000);
-                        chartDataRef.current = newData;
-                        return newData;
-                    });
-                    
-                    setCurrentPrices(prev => ({ 
-                        ...prev, 
-                        [sim.coinId]: newPoint.price 
+                    const newPoint = pointFromRow(payload.new);
+
+                    appendToChart(sim.coinId, [newPoint]);
+
+                    setCurrentPrices(prev => ({
+                        ...prev,
+                        [sim.coinId]: newPoint.price
                     }));
                 }
             )
-            .subscribe();
-    }
+            .on<SimulationRow>(
+                'postgres_changes',
+                {
+                    event: 'UPDATE',
+                    schema: 'public',
+                    table: 'simulations',
+                    filter: `id=eq.${sim.supabaseId}`
+                },
+                (payload) => {
+                    // Trigger, pause, extend, retarget, drawings or stop made by the controlling tab
+                    const updated = simulationFromRow(payload.new);
+                    if (scheduledRef.current.some(s => s.id === updated.id)) {
+                        if (updated.pending && updated.active) {
+                            updateScheduled(scheduledRef.current.map(s => s.id === updated.id ? updated : s));
+                            return;
+                        }
+                        updateScheduled(scheduledRef.current.filter(s => s.id !== updated.id));
+                        // Our own queued simulation, started by a runner
+                        if (controlledScheduledRef.current.delete(updated.id)) {
+                            if (updated.active) controlledRef.current.add(updated.coinId);
+                            persistScheduledSimulations();
+                        }
+                        if (updated.active) {
+                            updateSimulations({ ...simulationsRef.current, [updated.coinId]: updated });
+                            persistControlledSimulations();
+                        }
+                        return;
+                    }
+                    if (!simulationsRef.current[sim.coinId]) return;
+                    if (!updated.active) {
+                        finishSimulation(sim.coinId);
+                        return;
+                    }
+                    updateSimulations({ ...simulationsRef.current, [sim.coinId]: updated });
+                }
+            )
+            .subscribe());
 
     // 2. Global Tickers Subscription (For CoinList)
     const tickersChannel = supabase.channel('tickers-all')
@@ -344,7 +697,9 @@ const App: React.FC = () => {
 
                 const { symbol, price } = newRecord;
                 const coin = COINS.find(c => c.symbol === symbol);
-                if (coin) {
+                if (coin && newRecord.is_simulation) simulatedTickerAtRef.current[coin.id] = Date.now();
+                // Our own locally ticked coins are already up to date
+                if (coin && !ticksLocally(coin.id)) {
                     setCurrentPrices(prev => ({ ...prev, [coin.id]: Number(price) }));
                 }
             }
@@ -352,16 +707,15 @@ const App: React.FC = () => {
         .subscribe();
 
     return () => {
-        if (pointsChannel) supabase.removeChannel(pointsChannel);
+        pointsChannels.forEach(channel => supabase.removeChannel(channel));
         supabase.removeChannel(tickersChannel);
     };
-  }, [simulation?.supabaseId, isController]);
+  }, [viewedSimulationIds]);
 
   const handleCoinSelect = (coin: Coin) => {
-    if (simulation) {
-        const confirmSwitch = window.confirm("Смена монеты остановит текущую симуляцию. Продолжить?");
-        if (!confirmSwitch) return;
-        stopSimulation();
+    if (coin.id === selectedCoinRef.current.id) {
+        setIsMobileMenuOpen(false);
+        return;
     }
     setSelectedCoin(coin);
     selectedCoinRef.current = coin;
@@ -369,27 +723,181 @@ const App: React.FC = () => {
     loadMarketData(coin);
   };
 
+  const handleMarketProviderChange = (id: MarketProviderId) => {
+      marketProviders.configure({ provider: id });
+      storage.saveMarketProvider(id);
+      setMarketProvider(id);
+      listPricesRef.current = {};
+      setTickerStats({});
+      loadMarketData(selectedCoinRef.current);
+      // List prices from the new source; streamed ones replace them once subscribed
+      refreshListPrices();
+  };
+
+  // The whole list in one batched request per provider, shown on the next engine tick
+  const refreshListPrices = async () => {
+      const prices = await api.getPrices(COINS);
+      Object.assign(listPricesRef.current, prices);
+  };
+
+  // Records the market data this tab receives; stopping downloads it as a replay fixture
+  const handleRecordToggle = () => {
+      if (!marketRecorder.isRecording()) {
+          marketRecorder.start();
+          setIsRecording(true);
+          // Capture the history in front of the recording as well
+          loadMarketData(selectedCoinRef.current);
+          return;
+      }
+      const fixture = marketRecorder.stop();
+      setIsRecording(false);
+      if (!fixture) return;
+      const url = URL.createObjectURL(new Blob([JSON.stringify(fixture)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `market-fixture-${new Date(fixture.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
   const handleTimeFrameChange = (tf: TimeFrame) => {
       setActiveTimeFrame(tf);
+      timeFrameRef.current = tf;
+      loadHistoryResolution(tf);
+  };
+
+  // Stitches the history of a new timeframe's resolution into the chart; ticks at the head stay
+  const loadHistoryResolution = async (tf: TimeFrame) => {
+      const coin = selectedCoinRef.current;
+      if (loadingCoinRef.current) return;
+      const { interval, limit } = HISTORY_RESOLUTIONS[tf];
+      const intervalMs = KLINE_INTERVAL_MS[interval];
+      const cacheKey = historyCacheKey(coin, interval);
+      let cached: DataPoint[];
+      let fetched: DataPoint[];
+      try {
+          [cached, fetched] = await Promise.all([cacheKey ? klineCache.getKlines(cacheKey) : [], api.getHistory(coin, limit, { interval })]);
+      } catch (error) {
+          // Rate limited: the chart keeps the resolution it has
+          if (!isRateLimited(error)) throw error;
+          return;
+      }
+      // The newest page only joins up with a recent enough cache
+      if (cacheKey) klineCache.putKlines(cacheKey, fetched, { replace: historyRefresh(cached, limit, intervalMs, Date.now()).replaceCache });
+      if (selectedCoinRef.current.id !== coin.id || loadingCoinRef.current || timeFrameRef.current !== tf) return;
+
+      // Real klines stop where the simulated path (or the one dragging this coin) begins
+      const sim = simulationsRef.current[coin.id];
+      const splitAt = sim?.active ? sim.startTime : leaderOf(coin.id)?.startTime;
+      if (splitAt != null) fetched = klinesBefore(fetched, splitAt, intervalMs);
+      if (fetched.length === 0) return;
+
+      const merged = stitchHistory(chartDataRef.current, fetched, intervalMs, headIntervalRef.current).slice(-MAX_POINTS);
+      headIntervalRef.current = Math.min(headIntervalRef.current, intervalMs);
+      chartDataRef.current = merged;
+      setChartData(merged);
+
+      // A coarser interval may reach further back than the old pages did
+      olderHistoryRef.current = { loading: false, exhausted: false };
+      setIsLoadingOlder(false);
+  };
+
+  const handleIndicatorsChange = (configs: IndicatorConfig[]) => {
+      setIndicators(configs);
+      storage.saveIndicators(configs);
+  };
+
+  useEffect(() => {
+      setDrawings(storage.getDrawings(selectedCoin.id));
+  }, [selectedCoin.id]);
+
+  const handleDrawingsChange = (next: Drawing[]) => {
+      const coinId = selectedCoinRef.current.id;
+      const local = next.filter(d => !d.simulationId);
+      setDrawings(local);
+      storage.saveDrawings(coinId, local);
+
+      // Drawings attached to our own simulation are published with it
+      const sim = simulationsRef.current[coinId];
+      if (!sim || !controlledRef.current.has(coinId)) return;
+      const attached = next.filter(d => d.simulationId === sim.id);
+      if (JSON.stringify(attached) === JSON.stringify(sim.drawings ?? [])) return;
+      updateRunningSimulation(coinId, config => ({ ...config, drawings: attached.length > 0 ? attached : undefined }));
+  };
+
+  // Remember where every follower started, derived prices are relative to it
+  const resolveFollowers = (followers: CorrelatedFollower[], leaderCoinId: string) => followers
+    .filter(f => f.coinId !== leaderCoinId)
+    .map(f => ({
+      ...f,
+      basePrice: currentPricesRef.current[f.coinId]
+        || realPricesRef.current[f.coinId]
+        || COINS.find(c => c.id === f.coinId)?.basePrice
+        || 0
+    }))
+    .filter(f => f.basePrice > 0);
+
+  // Hands a freshly started simulation to this tab's engine loop (or to the runner)
+  const beginSimulation = (config: SimulationConfig) => {
+    controlledRef.current.add(config.coinId);
+    delete revertEnginesRef.current[config.coinId];
+    if (RUN_ON_SERVER) {
+      remoteRef.current.add(config.id);
+    } else {
+      enginesRef.current[config.coinId] = createSimulationEngine(config);
+    }
+    simPointsRef.current[config.coinId] = [];
+    config.followers?.forEach(f => {
+      delete followerEnginesRef.current[f.coinId];
+      simPointsRef.current[f.coinId] = [];
+      delete revertEnginesRef.current[f.coinId];
+    });
+    updateSimulations({ ...simulationsRef.current, [config.coinId]: config });
+    persistControlledSimulations();
   };
 
-  const startSimulation = async (targetPrice: number, hours: number, minutes: number, volatility: Volatility) => {
-    const durationMs = (hours * 60 * 60 * 1000) + (minutes * 60 * 1000);
+  const startSimulation = async (draft: SimulationDraft) => {
+    const { keyframes, volatility, model, modelParams, trigger } = draft;
+    const coin = selectedCoinRef.current;
+    const finalKeyframe = keyframes[keyframes.length - 1];
+    const targetPrice = finalKeyframe.price;
+    const durationMs = finalKeyframe.offsetMs;
     const now = Date.now();
-    const currentPrice = chartDataRef.current[chartDataRef.current.length - 1]?.price || selectedCoinRef.current.basePrice;
+    const currentPrice = chartDataRef.current[chartDataRef.current.length - 1]?.price || coin.basePrice;
+    const seed = randomSeed();
+
+    // Scheduled runs resolve their start price and followers when they trigger
+    const pending = !!trigger;
+    const startTime = trigger?.type === TriggerType.TIME && trigger.startAt ? trigger.startAt : now;
+    const followers = pending
+      ? (draft.followers ?? []).filter(f => f.coinId !== coin.id)
+      : resolveFollowers(draft.followers ?? [], coin.id);
+
+    const draftConfig: Omit<SimulationConfig, 'id' | 'createdAt'> = {
+      active: true,
+      coinId: coin.id,
+      startPrice: currentPrice,
+      targetPrice: targetPrice,
+      startTime: startTime,
+      durationMs: durationMs,
+      endTime: startTime + durationMs,
+      volatility: volatility,
+      keyframes: keyframes,
+      followers: followers.length > 0 ? followers : undefined,
+      model: model,
+      modelParams: modelParams,
+      seed: seed,
+      baseVolume: estimateBaseVolume(chartDataRef.current),
+      pending: pending || undefined,
+      trigger: trigger,
+      revert: draft.revert,
+      claimedBy: RUN_ON_SERVER ? undefined : CONTROLLER_ID,
+      heartbeatAt: RUN_ON_SERVER ? undefined : now
+    };
 
     const { data: simData, error } = await supabase
         .from('simulations')
-        .insert({
-            coin_id: selectedCoinRef.current.id,
-            start_price: currentPrice,
-            target_price: targetPrice,
-            start_time: now,
-            duration_ms: durationMs,
-            end_time: now + durationMs,
-            volatility: volatility,
-            is_active: true
-        })
+        .insert(simulationToRow(draftConfig))
         .select()
         .single();
 
@@ -400,154 +908,391 @@ const App: React.FC = () => {
     }
 
     const config: SimulationConfig = {
+      ...draftConfig,
       id: simData.id,
       supabaseId: simData.id,
-      active: true,
-      coinId: selectedCoinRef.current.id,
-      startPrice: currentPrice,
-      targetPrice: targetPrice,
-      startTime: now,
-      durationMs: durationMs,
-      endTime: now + durationMs,
-      volatility: volatility,
       createdAt: now
     };
 
-    setIsReverting(false);
-    setSimulation(config);
-    simulationRef.current = config;
-    
-    setIsController(true);
-    isControllerRef.current = true;
-    
-    if (!widgetConfig.enabled) storage.saveSimulation(config);
+    if (pending) {
+      controlledScheduledRef.current.add(config.id);
+      if (RUN_ON_SERVER) remoteRef.current.add(config.id);
+      updateScheduled([...scheduledRef.current, config]);
+      persistScheduledSimulations();
+      return;
+    }
+    beginSimulation(config);
+  };
+
+  const activateScheduledSimulation = async (pendingConfig: SimulationConfig) => {
+    const coin = COINS.find(c => c.id === pendingConfig.coinId);
+    if (!coin) return;
+    const chart = chartDataRef.current;
+    const startPrice = (coin.id === selectedCoinRef.current.id && chart.length > 0 ? chart[chart.length - 1].price : 0)
+      || currentPricesRef.current[coin.id]
+      || realPricesRef.current[coin.id]
+      || coin.basePrice;
+    const followers = resolveFollowers(pendingConfig.followers ?? [], coin.id);
+    const config: SimulationConfig = {
+      ...startScheduledSimulation(pendingConfig, Date.now(), startPrice),
+      followers: followers.length > 0 ? followers : undefined
+    };
+
+    controlledScheduledRef.current.delete(config.id);
+    updateScheduled(scheduledRef.current.filter(s => s.id !== config.id));
+    persistScheduledSimulations();
+    beginSimulation(config);
+
+    if (config.supabaseId) {
+        const { error } = await supabase
+            .from('simulations')
+            .update(simulationUpdateRow(config))
+            .eq('id', config.supabaseId);
+        if (error) console.error("Failed to start scheduled simulation", error);
+    }
   };
 
-  const stopSimulation = async () => {
-    if (simulationRef.current) {
-        if (simulationRef.current.supabaseId && isControllerRef.current) {
+  const cancelScheduledSimulation = async (config: SimulationConfig) => {
+    if (!controlledScheduledRef.current.has(config.id)) return;
+    controlledScheduledRef.current.delete(config.id);
+    remoteRef.current.delete(config.id);
+    updateScheduled(scheduledRef.current.filter(s => s.id !== config.id));
+    persistScheduledSimulations();
+
+    if (config.supabaseId) {
+        await supabase
+            .from('simulations')
+            .update({ is_active: false })
+            .eq('id', config.supabaseId);
+    }
+  };
+
+  // Removes a simulation for good: after its revert, or when a viewed one ended
+  const finishSimulation = async (coinId: string) => {
+    const sim = simulationsRef.current[coinId];
+    const isControlled = controlledRef.current.has(coinId);
+
+    const { [coinId]: _removed, ...rest } = simulationsRef.current;
+    updateSimulations(rest);
+    controlledRef.current.delete(coinId);
+    if (sim) remoteRef.current.delete(sim.id);
+    delete enginesRef.current[coinId];
+    delete revertEnginesRef.current[coinId];
+    delete simPointsRef.current[coinId];
+
+    sim?.followers?.forEach(f => {
+      delete followerEnginesRef.current[f.coinId];
+      delete revertEnginesRef.current[f.coinId];
+      delete simPointsRef.current[f.coinId];
+    });
+
+    if (sim) {
+        if (!widgetConfig.enabled && isControlled) {
+            storage.archiveSimulation(sim);
+        }
+        persistControlledSimulations();
+
+        if (sim.supabaseId && isControlled) {
             await supabase
                 .from('simulations')
                 .update({ is_active: false })
-                .eq('id', simulationRef.current.supabaseId);
+                .eq('id', sim.supabaseId);
         }
+    }
+  };
 
-        if (!widgetConfig.enabled) {
-            storage.archiveSimulation(simulationRef.current);
-            storage.clearSimulation();
-        }
+  // Ends the simulated path and sends the price back to the market; stopping again skips the revert
+  const stopSimulation = async (coinId: string = selectedCoinRef.current.id) => {
+    const sim = simulationsRef.current[coinId];
+    if (!sim) return;
+    const livePrice = realPricesRef.current[coinId];
+    if (!controlledRef.current.has(coinId) || sim.revertStartedAt != null || !livePrice) {
+        await finishSimulation(coinId);
+        return;
     }
-    setSimulation(null);
-    simulationRef.current = null;
-    setIsController(false);
-    isControllerRef.current = false;
-    setIsReverting(true);
+
+    const fromPrice = enginesRef.current[coinId]?.last.price || currentPricesRef.current[coinId] || sim.startPrice;
+    await updateRunningSimulation(coinId, config => startRevert(config, Date.now(), fromPrice, livePrice));
+  };
+
+  // Applies a mid-flight edit to a simulation this tab controls and publishes it
+  const updateRunningSimulation = async (coinId: string, transform: (config: SimulationConfig) => SimulationConfig) => {
+    const sim = simulationsRef.current[coinId];
+    if (!sim || !controlledRef.current.has(coinId)) return;
+
+    const next = transform(sim);
+    updateSimulations({ ...simulationsRef.current, [coinId]: next });
+    enginesRef.current[coinId]?.update(next);
+    persistControlledSimulations();
+
+    if (next.supabaseId) {
+        const { error } = await supabase
+            .from('simulations')
+            .update(simulationUpdateRow(next))
+            .eq('id', next.supabaseId);
+        if (error) console.error("Failed to update simulation", error);
+    }
+  };
+
+  const simulationControls = (coinId: string) => ({
+    pause: (mode: PauseMode) => updateRunningSimulation(coinId, sim => pauseSimulation(sim, Date.now(), mode)),
+    resume: () => updateRunningSimulation(coinId, sim => resumeSimulation(sim, Date.now())),
+    extend: (extraMs: number) => updateRunningSimulation(coinId, sim => extendSimulation(sim, extraMs)),
+    retarget: (price: number) => updateRunningSimulation(coinId, sim => retargetSimulation(sim, price)),
+    setVolatility: (volatility: Volatility) => updateRunningSimulation(coinId, sim => setSimulationVolatility(sim, volatility, Date.now()))
+  });
+
+  // Appends points to the visible chart if they belong to the coin in view
+  const appendToChart = (coinId: string, points: DataPoint[]) => {
+    if (points.length === 0) return;
+    if (selectedCoinRef.current.id !== coinId || loadingCoinRef.current === coinId) return;
+    appendPoints(chartDataRef.current, points, MAX_POINTS);
+    setChartVersion(version => version + 1);
+  };
+
+  /**
+   * Refresh this tab's claim on its simulations. One the tab no longer holds
+   * (a runner took over while the tab slept) becomes remote: the tab keeps
+   * commanding it but only watches its ticks. A quiet runner's claim is taken back.
+   */
+  const claimOwnedSimulations = async () => {
+    const owned = [
+      ...Object.values(simulationsRef.current).filter(s => controlledRef.current.has(s.coinId)),
+      ...scheduledRef.current.filter(s => controlledScheduledRef.current.has(s.id))
+    ].filter(s => s.supabaseId);
+    if (owned.length === 0) return;
+
+    let held = new Set<string>();
+    if (!RUN_ON_SERVER) {
+      const { data, error } = await supabase.rpc('claim_simulations', {
+        p_holder: CONTROLLER_ID,
+        p_stale_ms: CLAIM_STALE_MS,
+        p_ids: owned.map(s => s.supabaseId)
+      });
+      if (error) {
+        console.error("Failed to claim simulations", error);
+        return;
+      }
+      held = new Set((data ?? []).map((row: SimulationRow) => row.id));
+    }
+
+    let changed = false;
+    owned.forEach(s => {
+      const isHeld = held.has(s.supabaseId ?? '');
+      if (isHeld === !remoteRef.current.has(s.id)) return;
+      changed = true;
+      if (isHeld) {
+        remoteRef.current.delete(s.id);
+      } else {
+        remoteRef.current.add(s.id);
+      }
+      // Either way the local engines and buffer no longer match the stored path
+      delete enginesRef.current[s.coinId];
+      delete revertEnginesRef.current[s.coinId];
+      delete simPointsRef.current[s.coinId];
+      s.followers?.forEach(f => {
+        delete followerEnginesRef.current[f.coinId];
+        delete revertEnginesRef.current[f.coinId];
+        delete simPointsRef.current[f.coinId];
+      });
+    });
+    // Re-render so the viewer subscriptions follow
+    if (changed) updateSimulations({ ...simulationsRef.current });
+  };
+
+  // Last point this tab knows for a coin, to resume an engine from
+  const lastKnownPoint = (coinId: string, fallbackPrice: number, now: number): DataPoint => {
+    const buffer = simPointsRef.current[coinId];
+    if (buffer && buffer.length > 0) return buffer[buffer.length - 1];
+    const chart = chartDataRef.current;
+    if (coinId === selectedCoinRef.current.id && chart.length > 0) return chart[chart.length - 1];
+    return { time: now - TICK_MS, price: currentPricesRef.current[coinId] || fallbackPrice };
+  };
+
+  // Ticks of a running simulation, and whether its path is complete
+  const simulationTicks = (sim: SimulationConfig, now: number) => {
+    // Resume from the latest known price if the engine was lost (e.g. page reload)
+    if (!enginesRef.current[sim.coinId]) {
+      enginesRef.current[sim.coinId] = createSimulationEngine(sim, { from: lastKnownPoint(sim.coinId, sim.startPrice, now) });
+    }
+    const engine = enginesRef.current[sim.coinId];
+    // Every tick missed while the timer was throttled, at its own timestamp
+    const points = engine.catchUp(now);
+    return { points, done: engine.finished };
+  };
+
+  // Ticks back towards the live price of `coinId` (the simulated coin or a follower)
+  const revertTicks = (sim: SimulationConfig, coinId: string, now: number) => {
+    const livePrice = realPricesRef.current[coinId];
+    if (!livePrice || sim.revertStartedAt == null) return { points: [], done: false };
+
+    if (!revertEnginesRef.current[coinId]) {
+      const from = coinId === sim.coinId && enginesRef.current[coinId]
+        ? enginesRef.current[coinId].last
+        : lastKnownPoint(coinId, livePrice, now);
+      const seed = (sim.seed ?? seedFromString(sim.id)) ^ seedFromString(coinId);
+      // Followers trade the leader's turnover, converted into their own coin
+      const baseVolume = resolveBaseVolume(sim) * sim.startPrice / from.price;
+      revertEnginesRef.current[coinId] = createRevertEngine(
+        resolveRevertSettings(sim, from.price, livePrice), sim.revertStartedAt, from, seed >>> 0, baseVolume
+      );
+      if (coinId === sim.coinId) delete enginesRef.current[coinId];
+    }
+    const engine = revertEnginesRef.current[coinId];
+    const points = engine.catchUp(now, livePrice);
+    return { points, done: engine.finished };
   };
 
   // --- Main Engine Loop (Controller Only) ---
   useEffect(() => {
     const interval = setInterval(async () => {
       const now = Date.now();
-      const lastData = chartDataRef.current;
-      if (lastData.length === 0) return;
+      const selectedId = selectedCoinRef.current.id;
 
-      const lastPoint = lastData[lastData.length - 1];
-      const sim = simulationRef.current;
-      
-      let nextPrice = lastPoint.price;
-      let isSimulatedPoint = false;
+      // REST polling only while the stream is down
+      const isStreaming = !!marketStreamRef.current?.isConnected();
+      if (!isStreaming && now - lastPriceRefreshRef.current >= PRICE_REFRESH_MS && !widgetConfig.enabled) {
+         lastPriceRefreshRef.current = now;
+         // Real prices for the coin in view and for every simulated/reverting coin
+         const coinIds = new Set([selectedId, ...Object.keys(simulationsRef.current)]);
+         Object.values(simulationsRef.current).forEach(s => s.followers?.forEach(f => coinIds.add(f.coinId)));
+         scheduledRef.current.forEach(s => coinIds.add(s.coinId));
+         // The rest of the list too where the source batches it into the same request
+         const prices = await api.getPrices(COINS.filter(c => coinIds.has(c.id) || marketProviders.forCoin(c).getPrices));
+         Object.entries(prices).forEach(([id, p]) => {
+             realPricesRef.current[id] = p;
+             listPricesRef.current[id] = p;
+         });
+      }
 
-      if (now % 5000 < 1000 && !widgetConfig.enabled) {
-         const p = await api.getPrice(selectedCoinRef.current.symbol);
-         if (p) realPriceRef.current = p;
+      // Claim before ticking, a reloaded tab must not race a runner that took over
+      if (now - lastClaimRef.current >= HEARTBEAT_MS && !widgetConfig.enabled) {
+         lastClaimRef.current = now;
+         await claimOwnedSimulations();
       }
 
-      if (sim && sim.active && isControllerRef.current) {
-        setIsLive(false);
-        const elapsed = now - sim.startTime;
-        
-        if (elapsed >= sim.durationMs) {
-          stopSimulation();
-        } else {
-          const remainingTime = sim.durationMs - elapsed;
-          const currentGap = sim.targetPrice - lastPoint.price;
-          const ticksLeft = Math.max(1, remainingTime / 1000); 
-          const trendStep = currentGap / ticksLeft;
+      const priceUpdates: Record<string, number> = {};
 
-          let volatilityMultiplier = 0.0005; 
-          if (sim.volatility === Volatility.LOW) volatilityMultiplier = 0.0001;
-          if (sim.volatility === Volatility.HIGH) volatilityMultiplier = 0.002;
+      // Fresh list prices, except for coins showing a simulation
+      Object.entries(listPricesRef.current).forEach(([id, price]) => {
+        const isSimulated = !!simulationsRef.current[id] || !!leaderOf(id)
+          || now - (simulatedTickerAtRef.current[id] ?? 0) < SIMULATED_TICKER_HOLD_MS;
+        if (!isSimulated) priceUpdates[id] = price;
+      });
+      listPricesRef.current = {};
 
-          const volatility = lastPoint.price * volatilityMultiplier; 
-          const randomShock = (Math.random() - 0.5) * volatility * 2; 
-          
-          let jerkMultiplier = 1;
-          if (sim.volatility === Volatility.HIGH && Math.random() > 0.85) {
-             jerkMultiplier = 4;
-          } else if (Math.random() > 0.9) {
-             jerkMultiplier = 2;
-          }
+      // 0. Scheduled simulations whose trigger fired (a busy coin waits for its current run)
+      scheduledRef.current.forEach(pending => {
+        if (!controlledScheduledRef.current.has(pending.id) || remoteRef.current.has(pending.id)) return;
+        if (simulationsRef.current[pending.coinId]) return;
+        if (isTriggerMet(pending, now, realPricesRef.current[pending.coinId])) {
+          activateScheduledSimulation(pending);
+        }
+      });
 
-          nextPrice = lastPoint.price + trendStep + (randomShock * jerkMultiplier);
-          isSimulatedPoint = true;
-          
-          if (sim.supabaseId) {
-             // 1. Insert Point
-             supabase.from('simulation_points').insert({
-                 simulation_id: sim.supabaseId,
-                 time: now,
-                 price: nextPrice,
-                 is_simulation: true
-             }).then(({ error }) => {
-                 if(error) console.error("Error saving point", error);
-             });
-
-             // 2. Update Ticker (Public List Price)
-             // Throttled slightly or just send every tick (1s is fine for simple app)
-             supabase.from('tickers').upsert({
-                 symbol: selectedCoinRef.current.symbol,
-                 price: nextPrice,
-                 is_simulation: true,
-                 updated_at: new Date().toISOString()
-             }).then(({ error }) => {
-                 if(error) console.error("Error updating ticker", error);
-             });
+      // 1. Controlled simulations, every coin independently
+      const completed: SimulationConfig[] = [];
+      Object.values(simulationsRef.current).forEach(sim => {
+        if (!sim.active || !ticksLocally(sim.coinId)) return;
+        const coin = COINS.find(c => c.id === sim.coinId);
+        if (!coin) return;
+
+        // Simulated path first, then the way back to the market
+        const isReverting = sim.revertStartedAt != null;
+        const { points, done } = isReverting ? revertTicks(sim, sim.coinId, now) : simulationTicks(sim, now);
+        if (done) completed.push(sim);
+        if (points.length === 0) return;
+        const last = points[points.length - 1];
+
+        simPointsRef.current[sim.coinId] = appendPoints(simPointsRef.current[sim.coinId] ?? [], points, MAX_POINTS);
+        appendToChart(sim.coinId, points);
+        priceUpdates[sim.coinId] = last.price;
+
+        // Correlated followers move with the leader, plus their own noise
+        sim.followers?.forEach(follower => {
+          const followerCoin = COINS.find(c => c.id === follower.coinId);
+          if (!followerCoin || simulationsRef.current[follower.coinId]) return;
+
+          let derived: DataPoint[];
+          if (isReverting) {
+            derived = revertTicks(sim, follower.coinId, now).points;
+          } else {
+            if (!followerEnginesRef.current[follower.coinId]) {
+              const lastPrice = currentPricesRef.current[follower.coinId] || follower.basePrice || followerCoin.basePrice;
+              followerEnginesRef.current[follower.coinId] = createFollowerEngine(sim, follower, {
+                from: { time: points[0].time - TICK_MS, price: lastPrice }
+              });
+            }
+            const followerEngine = followerEnginesRef.current[follower.coinId];
+            derived = points.map(point => followerEngine.step(point));
           }
+          if (derived.length === 0) return;
+          const lastDerived = derived[derived.length - 1];
+
+          simPointsRef.current[follower.coinId] = appendPoints(simPointsRef.current[follower.coinId] ?? [], derived, MAX_POINTS);
+          appendToChart(follower.coinId, derived);
+          priceUpdates[follower.coinId] = lastDerived.price;
+
+          supabase.from('tickers').upsert({
+              symbol: followerCoin.symbol,
+              price: lastDerived.price,
+              is_simulation: true,
+              updated_at: new Date().toISOString()
+          }).then(({ error }) => {
+              if(error) console.error("Error updating ticker", error);
+          });
+        });
+
+        if (sim.supabaseId) {
+           // 1. Insert Points (one batch after a throttled gap); revert points are not simulated
+           const simulationId = sim.supabaseId;
+           supabase.from('simulation_points').insert(points.map(point => pointToRow(simulationId, point))).then(({ error }) => {
+               if(error) console.error("Error saving point", error);
+           });
+
+           // 2. Update Ticker (Public List Price)
+           supabase.from('tickers').upsert({
+               symbol: coin.symbol,
+               price: last.price,
+               is_simulation: true,
+               updated_at: new Date().toISOString()
+           }).then(({ error }) => {
+               if(error) console.error("Error updating ticker", error);
+           });
+        }
+      });
+
+      // Path over: start the revert; revert over: done (after the last ticks went out)
+      completed.forEach(sim => {
+        if (sim.revertStartedAt != null) {
+          finishSimulation(sim.coinId);
+        } else {
+          stopSimulation(sim.coinId);
         }
-      } 
-      else if (isReverting) {
-        setIsLive(false);
-        const target = realPriceRef.current;
-        const diff = target - lastPoint.price;
-        const step = diff * 0.1;
-        const noise = (Math.random() - 0.5) * (lastPoint.price * 0.0002);
-        nextPrice = lastPoint.price + step + noise;
-        if (Math.abs(diff) < (target * 0.0001)) {
-            setIsReverting(false);
-            nextPrice = target;
+      });
+
+      // 2. Live market for the coin in view
+      const selectedSim = simulationsRef.current[selectedId];
+      const lastData = chartDataRef.current;
+      const isDerived = !!leaderOf(selectedId);
+      if (!selectedSim && !isDerived && lastData.length > 0) {
+        const realPrice = realPricesRef.current[selectedId];
+        if (realPrice && now - lastData[lastData.length - 1].time > 1000) {
+            // Streamed klines give live ticks their real volume
+            const live = isStreaming ? liveVolumeRef.current[selectedId] : undefined;
+            appendToChart(selectedId, [{ time: now, price: realPrice, volume: live?.pending, isSimulation: false }]);
+            if (live) live.pending = 0;
+            priceUpdates[selectedId] = realPrice;
         }
-      } 
-      else if (!sim) {
-        setIsLive(true);
-        nextPrice = realPriceRef.current;
-      } else {
-        return; 
       }
+      setIsLive(!selectedSim && !isDerived);
 
-      if (now - lastPoint.time > 1000) {
-          const newPoint: DataPoint = {
-            time: now,
-            price: Math.max(0.00000001, nextPrice),
-            isSimulation: isSimulatedPoint
-          };
-          const updatedData = [...lastData, newPoint].slice(-3000); 
-          chartDataRef.current = updatedData;
-          setChartData(updatedData);
-          setCurrentPrices(prev => ({ ...prev, [selectedCoinRef.current.id]: nextPrice }));
+      if (Object.keys(priceUpdates).length > 0) {
+        setCurrentPrices(prev => ({ ...prev, ...priceUpdates }));
       }
     }, 1000);
     return () => clearInterval(interval);
-  }, [isReverting, widgetConfig.enabled, isController]);
+  }, [widgetConfig.enabled]);
 
   return (
     <div 
@@ -580,13 +1325,35 @@ const App: React.FC = () => {
            </div>
         </div>
 
-        <button 
-            onClick={() => setIsShareModalOpen(true)}
-            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-xs font-bold text-slate-200 transition-all hover:border-emerald-500/50"
-        >
-            <Share2 size={14} className="text-emerald-400" />
-            <span className="hidden sm:inline">API / Виджет</span>
-        </button>
+        <div className="flex items-center gap-2">
+            <select
+                value={marketProvider}
+                onChange={(e) => handleMarketProviderChange(e.target.value as MarketProviderId)}
+                title="Источник рыночных данных"
+                className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-xs font-bold text-slate-200 focus:outline-none focus:border-emerald-500"
+            >
+                {marketProviders.list().map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+            </select>
+            {marketProvider !== MarketProviderId.MOCK && marketProvider !== MarketProviderId.REPLAY && (
+                <button
+                    onClick={handleRecordToggle}
+                    title={isRecording ? 'Остановить запись и скачать фикстуру' : 'Записать рыночные данные для офлайн-повтора'}
+                    className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg border text-xs font-bold transition-all ${isRecording ? 'bg-red-500/10 border-red-500/40 text-red-400' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'}`}
+                >
+                    {isRecording ? <Square size={12} /> : <Circle size={12} className="text-red-400" />}
+                    <span className="hidden sm:inline">{isRecording ? 'Стоп' : 'Запись'}</span>
+                </button>
+            )}
+            <button 
+                onClick={() => setIsShareModalOpen(true)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-xs font-bold text-slate-200 transition-all hover:border-emerald-500/50"
+            >
+                <Share2 size={14} className="text-emerald-400" />
+                <span className="hidden sm:inline">API / Виджет</span>
+            </button>
+        </div>
       </header>
       )}
 
@@ -611,6 +1378,11 @@ const App: React.FC = () => {
             selectedCoin={selectedCoin} 
             onSelect={handleCoinSelect} 
             currentPrices={currentPrices}
+            tickerStats={tickerStats}
+            simulatedCoinIds={Object.keys(simulations)}
+            derivedCoinIds={Object.values(simulations)
+              .flatMap(s => (s.followers ?? []).map(f => f.coinId))
+              .filter(id => !simulations[id])}
           />
         </div>
         )}
@@ -618,6 +1390,13 @@ const App: React.FC = () => {
         {/* Chart Area */}
         <main className={`flex-1 flex flex-col min-w-0 relative ${widgetConfig.enabled ? '' : 'bg-slate-950'}`}>
           <div className="flex-1 min-h-0 relative z-0">
+             {!simulation && pendingSimulation && <PendingBanner config={pendingSimulation} />}
+             {rateLimitedCoinId === selectedCoin.id && (
+                 <div className="absolute top-12 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-900/90 border border-amber-500/30 text-xs font-bold text-amber-400 shadow-lg pointer-events-none">
+                     <RefreshCw size={12} className="animate-spin" />
+                     Лимит запросов к бирже, повтор...
+                 </div>
+             )}
              {isLoading && chartData.length === 0 ? (
                  <div className="absolute inset-0 flex items-center justify-center text-slate-500 gap-2">
                      <div className="w-5 h-5 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
@@ -626,10 +1405,19 @@ const App: React.FC = () => {
              ) : (
                 <TradingChart 
                     data={chartData} 
+                    dataVersion={chartVersion}
                     color={widgetConfig.lineColor || selectedCoin.color} 
                     symbol={selectedCoin.symbol}
                     activeTimeFrame={activeTimeFrame}
                     onTimeFrameChange={handleTimeFrameChange}
+                    indicators={indicators}
+                    onIndicatorsChange={handleIndicatorsChange}
+                    onLoadOlder={loadOlderHistory}
+                    isLoadingOlder={isLoadingOlder}
+                    drawings={simulation?.drawings ? [...drawings, ...simulation.drawings] : drawings}
+                    onDrawingsChange={widgetConfig.enabled ? undefined : handleDrawingsChange}
+                    attachSimulationId={simulation && controlledRef.current.has(selectedCoin.id) ? simulation.id : undefined}
+                    simulation={simulation && controlledRef.current.has(selectedCoin.id) && !widgetConfig.enabled ? simulation : undefined}
                     isWidget={widgetConfig.enabled}
                     widgetOptions={{
                         showHeader: widgetConfig.showHeader,
@@ -645,12 +1433,27 @@ const App: React.FC = () => {
           
           {!widgetConfig.enabled && (
           <div className="shrink-0 z-10 bg-slate-900 border-t border-slate-800">
+            {scheduled.length > 0 && (
+              <ScheduledQueue
+                items={scheduled}
+                coins={COINS}
+                currentPrices={currentPrices}
+                busyCoinIds={Object.keys(simulations)}
+                cancellableIds={scheduled.filter(s => controlledScheduledRef.current.has(s.id)).map(s => s.id)}
+                onCancel={cancelScheduledSimulation}
+              />
+            )}
             <SimulationControl 
               onStart={startSimulation} 
-              onStop={stopSimulation}
+              onStop={() => stopSimulation(selectedCoin.id)}
+              controls={simulation && simulation.revertStartedAt == null && controlledRef.current.has(selectedCoin.id)
+                ? simulationControls(selectedCoin.id)
+                : undefined}
               isSimulating={!!simulation}
               currentPrice={chartData[chartData.length - 1]?.price || selectedCoin.basePrice}
               config={simulation}
+              coins={COINS}
+              selectedCoinId={selectedCoin.id}
             />
           </div>
           )}
@@ -662,6 +1465,7 @@ const App: React.FC = () => {
         onClose={() => setIsShareModalOpen(false)}
         simulation={simulation}
         selectedCoinId={selectedCoin.id}
+        indicators={indicators}
       />
     </div>
   );
@@ -0,0 +1,130 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import { Candle, ChartType, DataPoint } from '../types';
+
+interface ChartCanvasProps {
+  /** Plot area in CSS pixels; the canvas is placed over it by the caller */
+  width: number;
+  height: number;
+  xDomain: [number, number];
+  yDomain: [number, number];
+  chartType: ChartType;
+  points: DataPoint[]; // Line mode, already downsampled to the width
+  candles: Candle[];
+  intervalMs: number;
+  color: string;
+  upColor: string;
+  downColor: string;
+  strokeWidth: number;
+  fillOpacity: number;
+  style?: React.CSSProperties;
+}
+
+// Gradient stops need an alpha channel; colors from the widget editor are hex
+const withAlpha = (color: string, alpha: number) => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return color;
+  const value = parseInt(match[1], 16);
+  return `rgba(${value >> 16}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+/**
+ * Price series drawn on a canvas instead of SVG, so long histories stay smooth
+ * while panning. Axes, tooltips and overlays remain in the recharts SVG on top.
+ */
+export const ChartCanvas: React.FC<ChartCanvasProps> = ({
+  width,
+  height,
+  xDomain,
+  yDomain,
+  chartType,
+  points,
+  candles,
+  intervalMs,
+  color,
+  upColor,
+  downColor,
+  strokeWidth,
+  fillOpacity,
+  style
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width <= 0 || height <= 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const xScale = width / (xDomain[1] - xDomain[0]);
+    const yScale = height / (yDomain[1] - yDomain[0]);
+    const x = (time: number) => (time - xDomain[0]) * xScale;
+    const y = (price: number) => height - (price - yDomain[0]) * yScale;
+
+    if (chartType === ChartType.LINE) {
+      if (points.length < 2) return;
+      ctx.beginPath();
+      ctx.moveTo(x(points[0].time), y(points[0].price));
+      for (let i = 1; i < points.length; i++) ctx.lineTo(x(points[i].time), y(points[i].price));
+
+      ctx.lineWidth = strokeWidth;
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = color;
+      ctx.stroke();
+
+      if (fillOpacity > 0) {
+        ctx.lineTo(x(points[points.length - 1].time), height);
+        ctx.lineTo(x(points[0].time), height);
+        ctx.closePath();
+        const gradient = ctx.createLinearGradient(0, 0, 0, height);
+        gradient.addColorStop(0.05, withAlpha(color, fillOpacity));
+        gradient.addColorStop(0.95, withAlpha(color, 0));
+        ctx.fillStyle = gradient;
+        ctx.fill();
+      }
+      return;
+    }
+
+    const barWidth = Math.max(1, intervalMs * xScale * 0.7);
+    const isBars = chartType === ChartType.OHLC;
+    ctx.lineWidth = 1;
+    for (const candle of candles) {
+      const cx = Math.round(x(candle.time + intervalMs / 2)) + 0.5;
+      if (cx < -barWidth || cx > width + barWidth) continue;
+      const candleColor = candle.close >= candle.open ? upColor : downColor;
+      const openY = y(candle.open);
+      const closeY = y(candle.close);
+      ctx.strokeStyle = candleColor;
+      ctx.fillStyle = candleColor;
+
+      ctx.beginPath();
+      ctx.moveTo(cx, y(candle.high));
+      ctx.lineTo(cx, y(candle.low));
+      if (isBars) {
+        ctx.moveTo(cx - barWidth / 2, openY);
+        ctx.lineTo(cx, openY);
+        ctx.moveTo(cx, closeY);
+        ctx.lineTo(cx + barWidth / 2, closeY);
+      }
+      ctx.stroke();
+
+      if (!isBars) {
+        ctx.fillRect(cx - barWidth / 2, Math.min(openY, closeY), barWidth, Math.max(1, Math.abs(closeY - openY)));
+      }
+    }
+  });
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute pointer-events-none"
+      style={{ ...style, width, height }}
+    />
+  );
+};
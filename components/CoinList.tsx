@@ -1,5 +1,5 @@
 import React from 'react';
-import { Coin } from '../types';
+import { Coin, TickerStats } from '../types';
 import { Search } from 'lucide-react';
 
 interface CoinListProps {
@@ -7,9 +7,14 @@ interface CoinListProps {
   selectedCoin: Coin;
   onSelect: (coin: Coin) => void;
   currentPrices: Record<string, number>;
+  tickerStats?: Record<string, TickerStats>; // Real 24h change and volume, where the source has them
+  simulatedCoinIds?: string[];
+  derivedCoinIds?: string[]; // Followers of a correlated simulation
 }
 
-export const CoinList: React.FC<CoinListProps> = ({ coins, selectedCoin, onSelect, currentPrices }) => {
+const compact = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+export const CoinList: React.FC<CoinListProps> = ({ coins, selectedCoin, onSelect, currentPrices, tickerStats = {}, simulatedCoinIds = [], derivedCoinIds = [] }) => {
   return (
     <div className="w-full h-full flex flex-col bg-slate-900 md:bg-slate-900/50 backdrop-blur-sm">
       <div className="p-4 border-b border-slate-800">
@@ -27,6 +32,9 @@ export const CoinList: React.FC<CoinListProps> = ({ coins, selectedCoin, onSelec
         {coins.map((coin) => {
           const price = currentPrices[coin.id] || coin.basePrice;
           const isSelected = selectedCoin.id === coin.id;
+          const isSimulated = simulatedCoinIds.includes(coin.id);
+          const isDerived = derivedCoinIds.includes(coin.id);
+          const stats = tickerStats[coin.id];
           
           return (
             <button
@@ -49,18 +57,34 @@ export const CoinList: React.FC<CoinListProps> = ({ coins, selectedCoin, onSelec
                   <div className="flex items-center gap-1.5">
                       <span className={`font-bold text-sm ${isSelected ? 'text-white' : 'text-slate-300'}`}>{coin.symbol}</span>
                       <span className="text-[10px] bg-slate-800 text-slate-400 px-1 rounded">PERP</span>
+                      {isSimulated && (
+                          <span className="flex items-center gap-1 text-[10px] font-bold bg-purple-500/10 text-purple-400 border border-purple-500/30 px-1 rounded">
+                              <span className="w-1.5 h-1.5 rounded-full bg-purple-400 animate-pulse"></span>
+                              SIM
+                          </span>
+                      )}
+                      {isDerived && (
+                          <span className="text-[10px] font-bold bg-indigo-500/10 text-indigo-300 border border-indigo-500/30 px-1 rounded" title="Следует за симуляцией">
+                              β
+                          </span>
+                      )}
                   </div>
                   <div className="text-xs text-slate-500">{coin.name}</div>
                 </div>
               </div>
               
               <div className="text-right">
-                <div className={`font-mono font-medium text-sm ${isSelected ? 'text-emerald-400' : 'text-slate-300'}`}>
+                <div className={`font-mono font-medium text-sm ${isSimulated ? 'text-purple-400' : isDerived ? 'text-indigo-300' : isSelected ? 'text-emerald-400' : 'text-slate-300'}`}>
                   ${price.toFixed(2)}
                 </div>
                 <div className="flex items-center justify-end gap-1 text-[10px] text-slate-500">
+                    {stats && (
+                        <span className={stats.changePercent >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                            {stats.changePercent >= 0 ? '+' : ''}{stats.changePercent.toFixed(2)}%
+                        </span>
+                    )}
                     <span>Vol</span>
-                    <span className="text-slate-400">24M</span>
+                    <span className="text-slate-400">{stats ? `$${compact.format(stats.quoteVolume)}` : '—'}</span>
                 </div>
               </div>
             </button>
@@ -0,0 +1,95 @@
+import React from 'react';
+import { X, GitBranch } from 'lucide-react';
+import { Coin, CorrelatedFollower } from '../types';
+import { DEFAULT_FOLLOWER_NOISE } from '../services/simulationEngine';
+
+// Rough betas vs. a major-coin move, used as a starting point
+const DEFAULT_BETAS: Record<string, number> = {
+  btc: 0.8, eth: 1.2, sol: 1.5, bnb: 0.8, doge: 1.6, xrp: 1.1, ada: 1.3, ton: 0.9, avax: 1.5,
+  shib: 1.6, dot: 1.3, link: 1.3, matic: 1.4, uni: 1.3, ltc: 1.0, near: 1.5, atom: 1.3, pepe: 2.0
+};
+
+interface FollowerPickerProps {
+  coins: Coin[];
+  followers: CorrelatedFollower[];
+  onChange: (followers: CorrelatedFollower[]) => void;
+}
+
+export const FollowerPicker: React.FC<FollowerPickerProps> = ({ coins, followers, onChange }) => {
+  const isFollower = (coinId: string) => followers.some(f => f.coinId === coinId);
+
+  const toggle = (coin: Coin) => {
+    if (isFollower(coin.id)) {
+      onChange(followers.filter(f => f.coinId !== coin.id));
+    } else {
+      onChange([...followers, { coinId: coin.id, beta: DEFAULT_BETAS[coin.id] ?? 1 }]);
+    }
+  };
+
+  const update = (coinId: string, patch: Partial<CorrelatedFollower>) => {
+    onChange(followers.map(f => f.coinId === coinId ? { ...f, ...patch } : f));
+  };
+
+  return (
+    <div className="bg-slate-950 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex items-center gap-1.5 px-3 py-2 border-b border-slate-800 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+        <GitBranch size={14} className="text-indigo-400" />
+        Корреляция
+        <span className="normal-case tracking-normal font-normal text-slate-600">— монеты, которые двигаются вслед</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 p-2">
+        {coins.map(coin => (
+          <button
+            key={coin.id}
+            onClick={() => toggle(coin)}
+            className={`px-2 py-1 text-[11px] font-bold rounded-md border transition-all ${isFollower(coin.id) ? 'bg-indigo-500/10 border-indigo-500/50 text-indigo-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+          >
+            {coin.symbol}
+          </button>
+        ))}
+      </div>
+
+      {followers.length > 0 && (
+        <div className="border-t border-slate-800 p-2 space-y-1.5">
+          <div className="grid grid-cols-[4rem_1fr_1fr_2rem] gap-2 px-1 text-[10px] font-semibold text-slate-500 uppercase tracking-wider">
+            <span>Монета</span>
+            <span>Бета</span>
+            <span title="Собственный шум, % за √час">Шум %</span>
+            <span></span>
+          </div>
+          {followers.map(f => (
+            <div key={f.coinId} className="grid grid-cols-[4rem_1fr_1fr_2rem] gap-2 items-center">
+              <span className="text-xs font-bold text-slate-300 px-1">{coins.find(c => c.id === f.coinId)?.symbol ?? f.coinId}</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                value={f.beta}
+                onChange={(e) => update(f.coinId, { beta: parseFloat(e.target.value) || 0 })}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg py-1 px-2 text-center text-white font-mono text-xs focus:outline-none focus:border-indigo-500"
+              />
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.1"
+                value={f.noise ?? ''}
+                placeholder={DEFAULT_FOLLOWER_NOISE.toString()}
+                onChange={(e) => update(f.coinId, { noise: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg py-1 px-2 text-center text-white font-mono text-xs focus:outline-none focus:border-indigo-500 placeholder-slate-700"
+              />
+              <button
+                onClick={() => onChange(followers.filter(x => x.coinId !== f.coinId))}
+                className="p-1 text-slate-500 hover:text-rose-400 transition-colors"
+                title="Убрать"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { IndicatorConfig, IndicatorType } from '../types';
+import { createIndicator, INDICATORS } from '../services/indicators';
+
+interface IndicatorPanelProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+export const IndicatorPanel: React.FC<IndicatorPanelProps> = ({ indicators, onChange }) => {
+  const update = (id: string, patch: Partial<IndicatorConfig>) =>
+    onChange(indicators.map(i => i.id === id ? { ...i, ...patch } : i));
+
+  const setParam = (indicator: IndicatorConfig, index: number, value: string) => {
+    const params = [...indicator.params];
+    params[index] = parseFloat(value);
+    update(indicator.id, { params });
+  };
+
+  return (
+    <div
+      className="w-80 max-w-[calc(100vw-1.5rem)] bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden"
+      // Keep clicks and wheel inside the panel away from the chart's pan and zoom
+      onMouseDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="px-3 py-2 border-b border-slate-800 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+        Индикаторы
+      </div>
+
+      {indicators.length === 0 && (
+        <div className="px-3 py-3 text-xs text-slate-600">Ничего не выбрано</div>
+      )}
+
+      <div className="max-h-64 overflow-y-auto">
+        {indicators.map(indicator => {
+          const definition = INDICATORS[indicator.type];
+          return (
+            <div key={indicator.id} className="flex items-center gap-2 px-3 py-2 border-b border-slate-800/60">
+              <input
+                type="color"
+                value={indicator.color}
+                onChange={(e) => update(indicator.id, { color: e.target.value })}
+                className="w-5 h-5 shrink-0 rounded border-0 bg-transparent p-0 cursor-pointer"
+                title="Цвет"
+              />
+              <span className="w-16 shrink-0 text-xs font-bold text-slate-200">{definition.label}</span>
+              <div className="flex-1 flex gap-1">
+                {definition.params.map((param, i) => (
+                  <input
+                    key={param.label}
+                    type="number"
+                    inputMode="decimal"
+                    min={param.min}
+                    step={param.step ?? 1}
+                    value={Number.isFinite(indicator.params[i]) ? indicator.params[i] : ''}
+                    onChange={(e) => setParam(indicator, i, e.target.value)}
+                    title={param.label}
+                    className="w-full min-w-0 bg-slate-950 border border-slate-700 rounded-md py-0.5 px-1 text-center text-white font-mono text-xs focus:outline-none focus:border-emerald-500"
+                  />
+                ))}
+              </div>
+              <button
+                onClick={() => onChange(indicators.filter(i => i.id !== indicator.id))}
+                className="p-1 text-slate-500 hover:text-rose-400 transition-colors"
+                title="Убрать"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-1 p-2">
+        {Object.values(IndicatorType).map(type => (
+          <button
+            key={type}
+            onClick={() => onChange([...indicators, createIndicator(type)])}
+            className="flex items-center gap-0.5 px-2 py-1 text-[11px] font-bold rounded-md text-slate-400 bg-slate-950 border border-slate-800 hover:text-white hover:border-slate-600 transition-all"
+          >
+            <Plus size={10} />
+            {INDICATORS[type].label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Easing, Keyframe, Volatility } from '../types';
+
+/** Editable keyframe, kept as raw input strings until the simulation starts */
+export interface KeyframeRow {
+  offsetMin: string; // Minutes from start
+  price: string;
+  volatility: Volatility;
+  easing: Easing;
+}
+
+export const EASING_LABELS: Record<Easing, string> = {
+  [Easing.LINEAR]: 'Линейно',
+  [Easing.EASE_IN]: 'Разгон',
+  [Easing.EASE_OUT]: 'Торможение',
+  [Easing.EASE_IN_OUT]: 'Плавно'
+};
+
+const VOLATILITY_LABELS: Record<Volatility, string> = {
+  [Volatility.LOW]: 'Спокойно',
+  [Volatility.MEDIUM]: 'Норм',
+  [Volatility.HIGH]: 'Шторм'
+};
+
+/**
+ * Validate rows and convert them to keyframes. Returns an error message instead
+ * when the scenario is not usable.
+ */
+export const parseKeyframeRows = (rows: KeyframeRow[]): Keyframe[] | string => {
+  if (rows.length === 0) return 'Добавьте точку';
+
+  const keyframes: Keyframe[] = [];
+  let lastOffset = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const price = parseFloat(row.price);
+    const offsetMin = parseFloat(row.offsetMin);
+
+    if (isNaN(price) || price <= 0) return `Точка ${i + 1}: укажите цену`;
+    if (isNaN(offsetMin) || offsetMin * 60000 <= lastOffset) return `Точка ${i + 1}: время должно расти`;
+
+    lastOffset = Math.round(offsetMin * 60000);
+    keyframes.push({ offsetMs: lastOffset, price, volatility: row.volatility, easing: row.easing });
+  }
+  return keyframes;
+};
+
+interface KeyframeEditorProps {
+  rows: KeyframeRow[];
+  onChange: (rows: KeyframeRow[]) => void;
+  currentPrice: number;
+}
+
+export const KeyframeEditor: React.FC<KeyframeEditorProps> = ({ rows, onChange, currentPrice }) => {
+  const updateRow = (index: number, patch: Partial<KeyframeRow>) => {
+    onChange(rows.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    const lastOffset = last ? parseFloat(last.offsetMin) || 0 : 0;
+    onChange([...rows, {
+      offsetMin: (lastOffset + 10).toString(),
+      price: last?.price ?? '',
+      volatility: last?.volatility ?? Volatility.MEDIUM,
+      easing: Easing.EASE_IN_OUT
+    }]);
+  };
+
+  const removeRow = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index));
+  };
+
+  const formatChange = (value: string) => {
+    const price = parseFloat(value);
+    if (isNaN(price) || currentPrice <= 0) return '';
+    const change = ((price - currentPrice) / currentPrice) * 100;
+    return `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="hidden sm:grid grid-cols-[2rem_1fr_1.4fr_1fr_1fr_2rem] gap-2 px-1 text-[10px] font-semibold text-slate-500 uppercase tracking-wider">
+        <span>#</span>
+        <span>Через, мин</span>
+        <span>Цена</span>
+        <span>Рынок</span>
+        <span>Кривая</span>
+        <span></span>
+      </div>
+
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[2rem_1fr_1.4fr_2rem] sm:grid-cols-[2rem_1fr_1.4fr_1fr_1fr_2rem] gap-2 items-center">
+          <span className="text-xs font-mono text-slate-500 text-center">{index + 1}</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            value={row.offsetMin}
+            onChange={(e) => updateRow(index, { offsetMin: e.target.value })}
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-2 text-center text-white font-mono text-sm focus:outline-none focus:border-emerald-500 transition-all"
+          />
+          <div className="relative">
+            <input
+              type="number"
+              inputMode="decimal"
+              value={row.price}
+              placeholder={currentPrice.toFixed(2)}
+              onChange={(e) => updateRow(index, { price: e.target.value })}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 pl-2 pr-16 text-white font-mono text-sm focus:outline-none focus:border-emerald-500 transition-all placeholder-slate-700"
+            />
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] font-mono text-slate-500 pointer-events-none">
+              {formatChange(row.price)}
+            </span>
+          </div>
+          <select
+            value={row.volatility}
+            onChange={(e) => updateRow(index, { volatility: e.target.value as Volatility })}
+            className="hidden sm:block w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-2 text-slate-200 text-xs focus:outline-none focus:border-emerald-500"
+          >
+            {Object.values(Volatility).map(v => (
+              <option key={v} value={v}>{VOLATILITY_LABELS[v]}</option>
+            ))}
+          </select>
+          <select
+            value={row.easing}
+            onChange={(e) => updateRow(index, { easing: e.target.value as Easing })}
+            className="hidden sm:block w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-2 text-slate-200 text-xs focus:outline-none focus:border-emerald-500"
+          >
+            {Object.values(Easing).map(e => (
+              <option key={e} value={e}>{EASING_LABELS[e]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => removeRow(index)}
+            disabled={rows.length === 1}
+            className="p-2 text-slate-500 hover:text-rose-400 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors"
+            title="Удалить точку"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={addRow}
+        className="flex items-center gap-1.5 text-xs font-bold text-emerald-400 hover:text-emerald-300 px-1 py-1 transition-colors"
+      >
+        <Plus size={14} />
+        Добавить точку
+      </button>
+    </div>
+  );
+};
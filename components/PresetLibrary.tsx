@@ -0,0 +1,178 @@
+import React, { useState, useRef } from 'react';
+import { Play, Download, Upload, Save, Trash2, PenLine, BookMarked } from 'lucide-react';
+import { ScenarioPreset, SimulationDraft } from '../types';
+import { BUILT_IN_PRESETS, draftToPreset, exportPresets, parsePresets, presetToDraft } from '../services/presets';
+import { storage } from '../services/storage';
+
+interface PresetLibraryProps {
+  currentPrice: number;
+  /** Current form contents, or a validation error */
+  getDraft: () => SimulationDraft | string;
+  onApply: (draft: SimulationDraft) => void;
+  onStart: (draft: SimulationDraft) => Promise<void>;
+}
+
+const formatDuration = (ms: number) => {
+  const totalMin = Math.round(ms / 60000);
+  if (totalMin < 60) return `${totalMin} мин`;
+  const h = Math.floor(totalMin / 60);
+  const m = totalMin % 60;
+  return m > 0 ? `${h} ч ${m} мин` : `${h} ч`;
+};
+
+const summarize = (preset: ScenarioPreset) => {
+  const last = preset.keyframes[preset.keyframes.length - 1];
+  const extremes = preset.keyframes.map(k => k.change);
+  const peak = Math.max(...extremes);
+  const trough = Math.min(...extremes);
+  const range = peak !== trough ? `${trough.toFixed(1)}…+${peak.toFixed(1)}%` : `${last.change >= 0 ? '+' : ''}${last.change.toFixed(1)}%`;
+  return `${range} · ${formatDuration(last.offsetMs)} · ${preset.keyframes.length} тчк`;
+};
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({ currentPrice, getDraft, onApply, onStart }) => {
+  const [userPresets, setUserPresets] = useState<ScenarioPreset[]>(() => storage.getPresets());
+  const [newName, setNewName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [startingId, setStartingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateUserPresets = (presets: ScenarioPreset[]) => {
+    setUserPresets(presets);
+    storage.savePresets(presets);
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) {
+      setMessage({ text: 'Введите название', isError: true });
+      return;
+    }
+    const draft = getDraft();
+    if (typeof draft === 'string') {
+      setMessage({ text: draft, isError: true });
+      return;
+    }
+    updateUserPresets([...userPresets, draftToPreset(draft, currentPrice, name)]);
+    setNewName('');
+    setMessage({ text: `Сохранено: «${name}»`, isError: false });
+  };
+
+  const handleStart = async (preset: ScenarioPreset) => {
+    setStartingId(preset.id);
+    await onStart(presetToDraft(preset, currentPrice));
+    setStartingId(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(userPresets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cryptosim-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresets(await file.text());
+      updateUserPresets([...userPresets, ...imported]);
+      setMessage({ text: `Импортировано: ${imported.length}`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Неверный файл', isError: true });
+    }
+  };
+
+  const renderPreset = (preset: ScenarioPreset) => (
+    <div key={preset.id} className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-slate-800/60 transition-colors group">
+      <div className="flex-1 min-w-0">
+        <div className="text-xs font-bold text-slate-200 truncate">{preset.name}</div>
+        <div className="text-[10px] font-mono text-slate-500 truncate">{summarize(preset)}</div>
+      </div>
+      <button
+        onClick={() => onApply(presetToDraft(preset, currentPrice))}
+        className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-md transition-colors"
+        title="Заполнить форму"
+      >
+        <PenLine size={14} />
+      </button>
+      <button
+        onClick={() => handleStart(preset)}
+        disabled={startingId !== null}
+        className="p-1.5 text-emerald-400 hover:text-white hover:bg-emerald-600 rounded-md transition-colors disabled:opacity-40"
+        title="Запустить сразу"
+      >
+        <Play size={14} fill="currentColor" />
+      </button>
+      {!preset.builtIn && (
+        <button
+          onClick={() => updateUserPresets(userPresets.filter(p => p.id !== preset.id))}
+          className="p-1.5 text-slate-500 hover:text-rose-400 rounded-md transition-colors"
+          title="Удалить пресет"
+        >
+          <Trash2 size={14} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-950 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex items-center gap-1.5 px-3 py-2 border-b border-slate-800 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+        <BookMarked size={14} className="text-amber-500" />
+        Пресеты
+      </div>
+
+      <div className="max-h-56 overflow-y-auto custom-scrollbar p-1">
+        {BUILT_IN_PRESETS.map(renderPreset)}
+        {userPresets.length > 0 && (
+          <div className="px-3 pt-2 pb-1 text-[10px] font-bold text-slate-600 uppercase tracking-wider">Мои</div>
+        )}
+        {userPresets.map(renderPreset)}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 p-2 border-t border-slate-800">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Название пресета"
+          className="flex-1 min-w-[140px] bg-slate-900 border border-slate-700 rounded-lg py-1.5 px-2 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+        />
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-2 py-1.5 text-xs font-bold text-slate-200 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+          title="Сохранить текущую форму как пресет"
+        >
+          <Save size={12} /> Сохранить
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={userPresets.length === 0}
+          className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30"
+          title="Экспорт JSON"
+        >
+          <Download size={14} />
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          title="Импорт JSON"
+        >
+          <Upload size={14} />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {message && (
+        <div className={`px-3 py-1.5 text-[11px] border-t border-slate-800 ${message.isError ? 'text-rose-400' : 'text-emerald-400'}`}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { RevertCurve, RevertSettings, Volatility } from '../types';
+import { DEFAULT_SIGMA } from '../services/simulationEngine';
+
+export const REVERT_CURVE_LABELS: Record<RevertCurve, string> = {
+  [RevertCurve.LINEAR]: 'Линейно',
+  [RevertCurve.EXPONENTIAL]: 'Экспонента',
+  [RevertCurve.BRIDGE]: 'Мост'
+};
+
+interface RevertSettingsPanelProps {
+  settings: RevertSettings;
+  volatility: Volatility;
+  onChange: (settings: RevertSettings) => void;
+}
+
+// Minutes field that maps to an optional ms value
+const toMinutes = (ms?: number) => ms != null ? (ms / 60000).toString() : '';
+const fromMinutes = (value: string) => value === '' ? undefined : Math.max(0, parseFloat(value) || 0) * 60000;
+
+export const RevertSettingsPanel: React.FC<RevertSettingsPanelProps> = ({ settings, volatility, onChange }) => {
+  const update = (patch: Partial<RevertSettings>) => onChange({ ...settings, ...patch });
+  const curve = settings.curve ?? RevertCurve.EXPONENTIAL;
+
+  return (
+    <div className="bg-slate-950 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex items-center gap-1.5 px-3 py-2 border-b border-slate-800 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+        <RotateCcw size={14} className="text-teal-400" />
+        Возврат к рынку
+        <span className="normal-case tracking-normal font-normal text-slate-600">— после окончания симуляции</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 p-2 items-end">
+        <div>
+          <label className="block text-[10px] font-semibold text-slate-500 mb-1 uppercase tracking-wider" title="Сколько держать итоговую цену перед возвратом">
+            Удержание, мин
+          </label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            placeholder="0"
+            value={toMinutes(settings.holdMs)}
+            onChange={(e) => update({ holdMs: fromMinutes(e.target.value) })}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg py-1 px-2 text-center text-white font-mono text-xs focus:outline-none focus:border-teal-500 placeholder-slate-700"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-semibold text-slate-500 mb-1 uppercase tracking-wider" title="По умолчанию минута на каждый % разрыва с рынком">
+            Длительность, мин
+          </label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            placeholder="авто"
+            value={toMinutes(settings.durationMs)}
+            onChange={(e) => update({ durationMs: fromMinutes(e.target.value) })}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg py-1 px-2 text-center text-white font-mono text-xs focus:outline-none focus:border-teal-500 placeholder-slate-700"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-semibold text-slate-500 mb-1 uppercase tracking-wider" title="Шум, % за √час">
+            Шум %
+          </label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="0.1"
+            placeholder={DEFAULT_SIGMA[volatility].toString()}
+            value={settings.noise ?? ''}
+            onChange={(e) => update({ noise: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg py-1 px-2 text-center text-white font-mono text-xs focus:outline-none focus:border-teal-500 placeholder-slate-700"
+          />
+        </div>
+        <div className="flex bg-slate-900 p-0.5 rounded-lg border border-slate-700">
+          {Object.values(RevertCurve).map(c => (
+            <button
+              key={c}
+              onClick={() => update({ curve: c })}
+              className={`flex-1 py-1 text-[11px] font-bold rounded-md transition-all whitespace-nowrap ${curve === c ? 'bg-slate-800 text-teal-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {REVERT_CURVE_LABELS[c]}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
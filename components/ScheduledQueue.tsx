@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, X, TrendingUp, TrendingDown, Hourglass } from 'lucide-react';
+import { Coin, SimulationConfig, TriggerType } from '../types';
+
+// Re-render every second so countdowns stay current
+const useNow = () => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return now;
+};
+
+/** 05:00, or 1:05:00 past an hour */
+export const formatCountdown = (ms: number) => {
+  const totalSec = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  const mmss = `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+const describeTrigger = (config: SimulationConfig, now: number) => {
+  const trigger = config.trigger;
+  if (!trigger || trigger.type === TriggerType.TIME) {
+    const startAt = trigger?.startAt ?? config.startTime;
+    return startAt > now ? `через ${formatCountdown(startAt - now)}` : 'сейчас';
+  }
+  return `при цене ${trigger.type === TriggerType.PRICE_ABOVE ? '≥' : '≤'} $${trigger.price}`;
+};
+
+interface ScheduledQueueProps {
+  items: SimulationConfig[];
+  coins: Coin[];
+  currentPrices: Record<string, number>;
+  // Coins still busy with a running simulation, their queue waits for it to end
+  busyCoinIds: string[];
+  // Only simulations scheduled from this tab can be cancelled
+  cancellableIds: string[];
+  onCancel: (config: SimulationConfig) => void;
+}
+
+export const ScheduledQueue: React.FC<ScheduledQueueProps> = ({ items, coins, currentPrices, busyCoinIds, cancellableIds, onCancel }) => {
+  const now = useNow();
+  const sorted = [...items].sort((a, b) => (a.trigger?.startAt ?? Infinity) - (b.trigger?.startAt ?? Infinity));
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b border-slate-800 overflow-x-auto no-scrollbar">
+      <span className="flex items-center gap-1.5 text-[10px] font-semibold text-slate-500 uppercase tracking-wider shrink-0">
+        <Clock size={12} className="text-amber-500" />
+        Очередь
+      </span>
+      {sorted.map(config => {
+        const coin = coins.find(c => c.id === config.coinId);
+        const type = config.trigger?.type ?? TriggerType.TIME;
+        const price = currentPrices[config.coinId];
+        return (
+          <div key={config.id} className="flex items-center gap-1.5 shrink-0 pl-2 pr-1 py-1 rounded-lg bg-slate-950 border border-slate-700 text-xs">
+            {type === TriggerType.TIME && <Hourglass size={12} className="text-amber-400" />}
+            {type === TriggerType.PRICE_ABOVE && <TrendingUp size={12} className="text-emerald-400" />}
+            {type === TriggerType.PRICE_BELOW && <TrendingDown size={12} className="text-rose-400" />}
+            <span className="font-bold text-slate-200">{coin?.symbol ?? config.coinId}</span>
+            <span className="font-mono text-slate-400">{describeTrigger(config, now)}</span>
+            {type !== TriggerType.TIME && price !== undefined && (
+              <span className="font-mono text-slate-600">(${price.toFixed(price < 1 ? 6 : 2)})</span>
+            )}
+            {busyCoinIds.includes(config.coinId) && (
+              <span className="text-slate-600" title="Запустится после текущей симуляции">· ждёт</span>
+            )}
+            {cancellableIds.includes(config.id) && (
+              <button
+                onClick={() => onCancel(config)}
+                className="p-0.5 text-slate-500 hover:text-rose-400 transition-colors"
+                title="Отменить"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+/** Chart overlay for viewers of a simulation that has not started yet */
+export const PendingBanner: React.FC<{ config: SimulationConfig }> = ({ config }) => {
+  const now = useNow();
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-900/90 border border-amber-500/30 text-xs font-bold text-amber-400 shadow-lg pointer-events-none">
+      <Clock size={12} />
+      Симуляция начнётся {describeTrigger(config, now)}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { X, Copy, Check, Code, Link as LinkIcon, Settings, Palette, Layout, Grid, Type, Sliders, Database, Terminal, CloudLightning, Activity } from 'lucide-react';
-import { SimulationConfig } from '../types';
+import { IndicatorConfig, SimulationConfig } from '../types';
+import { encodeIndicators } from '../services/indicators';
+import { marketProviders } from '../services/marketProviders';
 import { SUPABASE_URL, SUPABASE_ANON_KEY } from '../services/supabaseClient';
 
 interface ShareModalProps {
@@ -8,6 +10,7 @@ interface ShareModalProps {
   onClose: () => void;
   simulation: SimulationConfig | null;
   selectedCoinId: string;
+  indicators: IndicatorConfig[];
 }
 
 interface WidgetSettings {
@@ -25,7 +28,7 @@ interface WidgetSettings {
 
 type Tab = 'widget' | 'api';
 
-export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, simulation, selectedCoinId }) => {
+export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, simulation, selectedCoinId, indicators }) => {
   const [activeTab, setActiveTab] = useState<Tab>('widget');
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
   const [widgetUrl, setWidgetUrl] = useState<string>('');
@@ -54,6 +57,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, simulat
         // Base Params
         url.searchParams.set('mode', 'widget');
         url.searchParams.set('coin', selectedCoinId);
+        url.searchParams.set('provider', marketProviders.getGlobal());
         
         // Style Params
         if (settings.transparent) {
@@ -72,6 +76,9 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, simulat
         url.searchParams.set('grid', settings.showGrid.toString());
         url.searchParams.set('w_strk', settings.strokeWidth.toString());
         url.searchParams.set('w_fill', (settings.fillOpacity / 100).toString());
+        if (indicators.length > 0) {
+            url.searchParams.set('ind', encodeIndicators(indicators));
+        }
         
         // Simulation Params
         if (simulation && simulation.supabaseId) {
@@ -90,7 +97,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, simulat
         setWidgetUrl(window.location.href);
       }
     }
-  }, [isOpen, simulation, selectedCoinId, settings]);
+  }, [isOpen, simulation, selectedCoinId, settings, indicators]);
 
   if (!isOpen) return null;
 
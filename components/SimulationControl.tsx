@@ -1,13 +1,62 @@
 import React, { useState } from 'react';
-import { Play, Square, Timer, Target, AlertTriangle, Activity, Loader2 } from 'lucide-react';
-import { SimulationConfig, Volatility } from '../types';
+import { Play, Square, Timer, Target, AlertTriangle, Activity, Loader2, Waves, Route, BookMarked, GitBranch, Pause, Snowflake, Wind, Plus, Check, CalendarClock, ListPlus, RotateCcw } from 'lucide-react';
+import { Coin, CorrelatedFollower, Easing, Keyframe, PathModel, PathModelParams, PauseMode, RevertCurve, RevertSettings, SimulationConfig, SimulationDraft, SimulationTrigger, TriggerType, Volatility } from '../types';
+import { DEFAULT_JUMPS_PER_HOUR, DEFAULT_JUMP_SIZE, DEFAULT_SIGMA, getKeyframes } from '../services/simulationEngine';
+import { getEffectiveElapsed } from '../services/simulationCommands';
+import { KeyframeEditor, KeyframeRow, parseKeyframeRows } from './KeyframeEditor';
+import { PresetLibrary } from './PresetLibrary';
+import { FollowerPicker } from './FollowerPicker';
+import { REVERT_CURVE_LABELS, RevertSettingsPanel } from './RevertSettingsPanel';
+
+const MODEL_LABELS: Record<PathModel, string> = {
+  [PathModel.CLASSIC]: 'Классика',
+  [PathModel.GBM]: 'GBM',
+  [PathModel.BRIDGE]: 'Мост',
+  [PathModel.OU]: 'Возврат',
+  [PathModel.JUMP]: 'Скачки'
+};
+
+const MODEL_HINTS: Record<PathModel, string> = {
+  [PathModel.CLASSIC]: 'Линейный тренд к цели с рывками',
+  [PathModel.GBM]: 'Геометрическое броуновское движение, медиана в цели',
+  [PathModel.BRIDGE]: 'Броуновский мост, ровно в цели к концу',
+  [PathModel.OU]: 'Орнштейн–Уленбек, притяжение к цели',
+  [PathModel.JUMP]: 'GBM со случайными скачками'
+};
+
+const VOLATILITY_LABELS: Record<Volatility, string> = {
+  [Volatility.LOW]: 'Спокойно',
+  [Volatility.MEDIUM]: 'Норм',
+  [Volatility.HIGH]: 'Шторм'
+};
+
+const VOLATILITY_COLORS: Record<Volatility, string> = {
+  [Volatility.LOW]: 'text-emerald-400',
+  [Volatility.MEDIUM]: 'text-blue-400',
+  [Volatility.HIGH]: 'text-rose-400'
+};
+
+// Enough significant digits for both BTC and PEPE
+const formatInputPrice = (price: number) => parseFloat(price.toPrecision(6)).toString();
+
+/** Mid-flight edits, only available to the tab that runs the simulation */
+export interface SimulationControlActions {
+  pause: (mode: PauseMode) => void;
+  resume: () => void;
+  extend: (extraMs: number) => void;
+  retarget: (price: number) => void;
+  setVolatility: (volatility: Volatility) => void;
+}
 
 interface SimulationControlProps {
-  onStart: (price: number, hours: number, minutes: number, volatility: Volatility) => Promise<void>; // Updated to Promise
+  onStart: (draft: SimulationDraft) => Promise<void>;
   onStop: () => void;
   isSimulating: boolean;
   currentPrice: number;
   config: SimulationConfig | null;
+  coins: Coin[];
+  selectedCoinId: string;
+  controls?: SimulationControlActions;
 }
 
 export const SimulationControl: React.FC<SimulationControlProps> = ({ 
@@ -15,43 +64,168 @@ export const SimulationControl: React.FC<SimulationControlProps> = ({
   onStop, 
   isSimulating, 
   currentPrice,
-  config
+  config,
+  coins,
+  selectedCoinId,
+  controls
 }) => {
   const [targetPrice, setTargetPrice] = useState<string>('');
   const [hours, setHours] = useState<string>('');
   const [minutes, setMinutes] = useState<string>('5');
+  const [mode, setMode] = useState<'target' | 'scenario'>('target');
+  const [showPresets, setShowPresets] = useState(false);
+  const [showFollowers, setShowFollowers] = useState(false);
+  const [followers, setFollowers] = useState<CorrelatedFollower[]>([]);
+  const [showRevert, setShowRevert] = useState(false);
+  const [revert, setRevert] = useState<RevertSettings>({});
+  const [keyframeRows, setKeyframeRows] = useState<KeyframeRow[]>([
+    { offsetMin: '10', price: '', volatility: Volatility.MEDIUM, easing: Easing.EASE_IN_OUT }
+  ]);
   const [volatility, setVolatility] = useState<Volatility>(Volatility.MEDIUM);
+  const [model, setModel] = useState<PathModel>(PathModel.CLASSIC);
+  const [sigma, setSigma] = useState<string>('');
+  const [meanReversion, setMeanReversion] = useState<string>('');
+  const [jumpsPerHour, setJumpsPerHour] = useState<string>('');
+  const [jumpSize, setJumpSize] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(false);
+  const [newTarget, setNewTarget] = useState<string>('');
+  const [startMode, setStartMode] = useState<'now' | 'time' | 'price'>('now');
+  const [startAt, setStartAt] = useState<string>('');
+  const [triggerPrice, setTriggerPrice] = useState<string>('');
 
-  const handleStart = async () => {
-    setError(null);
-    const price = parseFloat(targetPrice);
-    const h = parseInt(hours, 10) || 0;
-    const m = parseInt(minutes, 10) || 0;
+  // Collect the form into a draft, or return a validation error
+  const buildDraft = (): SimulationDraft | string => {
+    let keyframes: Keyframe[];
 
-    if (isNaN(price) || price <= 0) {
-      setError('Укажите цену');
-      return;
+    if (mode === 'scenario') {
+      const parsedRows = parseKeyframeRows(keyframeRows);
+      if (typeof parsedRows === 'string') return parsedRows;
+      keyframes = parsedRows;
+    } else {
+      const price = parseFloat(targetPrice);
+      const h = parseInt(hours, 10) || 0;
+      const m = parseInt(minutes, 10) || 0;
+
+      if (isNaN(price) || price <= 0) return 'Укажите цену';
+      if (h === 0 && m === 0) return 'Укажите время';
+      keyframes = [{
+        offsetMs: (h * 60 * 60 * 1000) + (m * 60 * 1000),
+        price,
+        volatility,
+        easing: Easing.LINEAR
+      }];
     }
-    if (h === 0 && m === 0) {
-      setError('Укажите время');
-      return;
+
+    // Only explicitly entered values are stored, the engine fills in the rest
+    const modelParams: PathModelParams = {};
+    const parsed = {
+      sigma: parseFloat(sigma),
+      meanReversion: parseFloat(meanReversion),
+      jumpsPerHour: parseFloat(jumpsPerHour),
+      jumpSize: parseFloat(jumpSize)
+    };
+    if (model !== PathModel.CLASSIC && parsed.sigma > 0) modelParams.sigma = parsed.sigma;
+    if (model === PathModel.OU && parsed.meanReversion > 0) modelParams.meanReversion = parsed.meanReversion;
+    if (model === PathModel.JUMP && parsed.jumpsPerHour >= 0) modelParams.jumpsPerHour = parsed.jumpsPerHour;
+    if (model === PathModel.JUMP && parsed.jumpSize > 0) modelParams.jumpSize = parsed.jumpSize;
+
+    let trigger: SimulationTrigger | undefined;
+    if (startMode === 'time') {
+      const [h, m] = startAt.split(':').map(v => parseInt(v, 10));
+      if (isNaN(h) || isNaN(m)) return 'Укажите время запуска';
+      const at = new Date();
+      at.setHours(h, m, 0, 0);
+      // A time that already passed today means tomorrow
+      if (at.getTime() <= Date.now()) at.setDate(at.getDate() + 1);
+      trigger = { type: TriggerType.TIME, startAt: at.getTime() };
+    } else if (startMode === 'price') {
+      const level = parseFloat(triggerPrice);
+      if (isNaN(level) || level <= 0) return 'Укажите цену запуска';
+      trigger = { type: level >= currentPrice ? TriggerType.PRICE_ABOVE : TriggerType.PRICE_BELOW, price: level };
     }
 
+    const activeFollowers = followers.filter(f => f.coinId !== selectedCoinId && f.beta !== 0);
+    // Untouched revert settings are left to the engine defaults
+    const revertSettings = Object.values(revert).some(v => v !== undefined) ? revert : undefined;
+    return { keyframes, volatility, model, modelParams, followers: activeFollowers, trigger, revert: revertSettings };
+  };
+
+  // Prefill the form from a draft (e.g. a preset priced at the current market)
+  const applyDraft = (draft: SimulationDraft) => {
+    setError(null);
+    setMode('scenario');
+    setKeyframeRows(draft.keyframes.map(k => ({
+      offsetMin: (k.offsetMs / 60000).toString(),
+      price: formatInputPrice(k.price),
+      volatility: k.volatility,
+      easing: k.easing
+    })));
+    setVolatility(draft.volatility);
+    setModel(draft.model);
+    setSigma(draft.modelParams.sigma?.toString() ?? '');
+    setMeanReversion(draft.modelParams.meanReversion?.toString() ?? '');
+    setJumpsPerHour(draft.modelParams.jumpsPerHour?.toString() ?? '');
+    setJumpSize(draft.modelParams.jumpSize?.toString() ?? '');
+    if (draft.followers) setFollowers(draft.followers);
+    if (draft.revert) setRevert(draft.revert);
+  };
+
+  const startDraft = async (draft: SimulationDraft) => {
+    setError(null);
     setIsStarting(true);
-    await onStart(price, h, m, volatility);
+    await onStart(draft);
     setIsStarting(false);
   };
 
+  const handleStart = async () => {
+    const draft = buildDraft();
+    if (typeof draft === 'string') {
+      setError(draft);
+      return;
+    }
+    await startDraft(draft);
+  };
+
+  const handleRetarget = () => {
+    const price = parseFloat(newTarget);
+    if (isNaN(price) || price <= 0) {
+      setError('Укажите цену');
+      return;
+    }
+    setError(null);
+    controls?.retarget(price);
+    setNewTarget('');
+  };
+
+  // Paused time does not count, so progress stands still during a pause
+  const elapsed = config ? getEffectiveElapsed(config, Date.now()) : 0;
+  const isPaused = config?.pausedAt != null;
+
+  // After the path: hold, then head back to the market
+  const revertStartedAt = config?.revertStartedAt;
+  const isReverting = revertStartedAt != null;
+  const revertHoldMs = config?.revert?.holdMs ?? 0;
+  const revertTotalMs = revertHoldMs + (config?.revert?.durationMs ?? 0);
+  const revertElapsed = isReverting ? Math.max(0, Date.now() - revertStartedAt) : 0;
+  const isHolding = isReverting && revertElapsed < revertHoldMs;
+
   const calculateProgress = () => {
     if (!config || !isSimulating) return 0;
-    const now = Date.now();
-    const elapsed = now - config.startTime;
-    const percent = Math.min((elapsed / config.durationMs) * 100, 100);
+    const percent = isReverting
+      ? (revertTotalMs > 0 ? Math.min((revertElapsed / revertTotalMs) * 100, 100) : 100)
+      : Math.min((elapsed / config.durationMs) * 100, 100);
     return percent.toFixed(1);
   };
 
+  // Next keyframe still ahead of us (the final one once everything has passed)
+  const activeKeyframes = config ? getKeyframes(config) : [];
+  const nextKeyframeIndex = config
+    ? Math.max(0, activeKeyframes.findIndex(k => k.offsetMs > elapsed))
+    : 0;
+  const nextKeyframe = activeKeyframes[nextKeyframeIndex];
+  const segmentVolatility = nextKeyframe?.volatility ?? config?.volatility ?? Volatility.MEDIUM;
+
   return (
     <div className="bg-slate-900 border-t border-slate-800 pb-safe-area shadow-[0_-5px_20px_rgba(0,0,0,0.3)]">
       
@@ -65,8 +239,77 @@ export const SimulationControl: React.FC<SimulationControlProps> = ({
 
       <div className="max-w-7xl mx-auto p-4">
         {!isSimulating ? (
+          <div className="flex flex-col gap-4">
+
+          {/* Mode Switch */}
+          <div className="flex items-center gap-1 bg-slate-950 p-1 rounded-xl border border-slate-700 self-start">
+            <button
+              onClick={() => setMode('target')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${mode === 'target' ? 'bg-slate-800 text-emerald-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <Target size={12} />
+              Цель
+            </button>
+            <button
+              onClick={() => setMode('scenario')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${mode === 'scenario' ? 'bg-slate-800 text-emerald-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <Route size={12} />
+              Сценарий
+            </button>
+            <div className="w-px h-4 bg-slate-800 mx-1"></div>
+            <button
+              onClick={() => setShowPresets(!showPresets)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${showPresets ? 'bg-slate-800 text-amber-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <BookMarked size={12} />
+              Пресеты
+            </button>
+            <button
+              onClick={() => setShowFollowers(!showFollowers)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${showFollowers ? 'bg-slate-800 text-indigo-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <GitBranch size={12} />
+              Связи{followers.length > 0 ? ` · ${followers.length}` : ''}
+            </button>
+            <button
+              onClick={() => setShowRevert(!showRevert)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${showRevert ? 'bg-slate-800 text-teal-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <RotateCcw size={12} />
+              Возврат
+            </button>
+          </div>
+
+          {showFollowers && (
+            <FollowerPicker
+              coins={coins.filter(c => c.id !== selectedCoinId)}
+              followers={followers.filter(f => f.coinId !== selectedCoinId)}
+              onChange={setFollowers}
+            />
+          )}
+
+          {showRevert && (
+            <RevertSettingsPanel settings={revert} volatility={volatility} onChange={setRevert} />
+          )}
+
+          {showPresets && (
+            <PresetLibrary
+              currentPrice={currentPrice}
+              getDraft={buildDraft}
+              onApply={applyDraft}
+              onStart={startDraft}
+            />
+          )}
+
+          {mode === 'scenario' && (
+            <KeyframeEditor rows={keyframeRows} onChange={setKeyframeRows} currentPrice={currentPrice} />
+          )}
+
           <div className="flex flex-col lg:flex-row gap-4 items-stretch lg:items-end">
             
+            {mode === 'target' && (
+            <>
             {/* Target Price Input */}
             <div className="flex-1 min-w-[150px]">
               <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider">
@@ -119,6 +362,9 @@ export const SimulationControl: React.FC<SimulationControlProps> = ({
               </div>
             </div>
 
+            </>
+            )}
+
             {/* Volatility Selector */}
             <div className="flex-1 min-w-[200px]">
                <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider">
@@ -153,38 +399,197 @@ export const SimulationControl: React.FC<SimulationControlProps> = ({
               disabled={isStarting}
               className={`lg:w-auto w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white font-bold py-3 px-8 rounded-xl transition-all shadow-lg shadow-emerald-900/40 active:scale-[0.98] flex items-center justify-center gap-2 ${isStarting ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
-              {isStarting ? <Loader2 size={20} className="animate-spin" /> : <Play size={20} fill="currentColor" />}
-              <span>СТАРТ</span>
+              {isStarting
+                ? <Loader2 size={20} className="animate-spin" />
+                : startMode === 'now' ? <Play size={20} fill="currentColor" /> : <ListPlus size={20} />}
+              <span>{startMode === 'now' ? 'СТАРТ' : 'В ОЧЕРЕДЬ'}</span>
             </button>
           </div>
+
+          {/* Path Model Selector */}
+          <div className="flex flex-col lg:flex-row gap-4 items-stretch lg:items-end">
+            <div className="flex-[2] min-w-[280px]">
+              <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider">
+                <Waves size={14} className="text-sky-500" />
+                Модель
+                <span className="normal-case tracking-normal font-normal text-slate-600 truncate">— {MODEL_HINTS[model]}</span>
+              </label>
+              <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-700 overflow-x-auto no-scrollbar">
+                {Object.values(PathModel).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setModel(m)}
+                    className={`flex-1 py-2 px-2 text-xs font-bold rounded-lg transition-all whitespace-nowrap ${model === m ? 'bg-slate-800 text-sky-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {MODEL_LABELS[m]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {model !== PathModel.CLASSIC && (
+              <div className="flex gap-2 flex-[2] min-w-[180px]">
+                <div className="flex-1">
+                  <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider" title="Волатильность, % за √час">
+                    σ %/√ч
+                  </label>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    placeholder={DEFAULT_SIGMA[volatility].toString()}
+                    value={sigma}
+                    onChange={(e) => setSigma(e.target.value)}
+                    className="w-full bg-slate-950 border border-slate-700 rounded-xl py-2 px-3 text-center text-white font-mono focus:outline-none focus:border-sky-500 transition-all placeholder-slate-700"
+                  />
+                </div>
+                {model === PathModel.OU && (
+                  <div className="flex-1">
+                    <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider" title="Скорость возврата к цели, 1/час">
+                      θ 1/ч
+                    </label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      placeholder="авто"
+                      value={meanReversion}
+                      onChange={(e) => setMeanReversion(e.target.value)}
+                      className="w-full bg-slate-950 border border-slate-700 rounded-xl py-2 px-3 text-center text-white font-mono focus:outline-none focus:border-sky-500 transition-all placeholder-slate-700"
+                    />
+                  </div>
+                )}
+                {model === PathModel.JUMP && (
+                  <>
+                    <div className="flex-1">
+                      <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider" title="Среднее число скачков в час">
+                        Скачков/ч
+                      </label>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        placeholder={DEFAULT_JUMPS_PER_HOUR.toString()}
+                        value={jumpsPerHour}
+                        onChange={(e) => setJumpsPerHour(e.target.value)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-xl py-2 px-3 text-center text-white font-mono focus:outline-none focus:border-sky-500 transition-all placeholder-slate-700"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider" title="Типичный размер скачка, %">
+                        Размер %
+                      </label>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        placeholder={DEFAULT_JUMP_SIZE.toString()}
+                        value={jumpSize}
+                        onChange={(e) => setJumpSize(e.target.value)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-xl py-2 px-3 text-center text-white font-mono focus:outline-none focus:border-sky-500 transition-all placeholder-slate-700"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Start Trigger */}
+            <div className="flex-1 min-w-[220px]">
+              <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider">
+                <CalendarClock size={14} className="text-amber-500" />
+                Запуск
+              </label>
+              <div className="flex gap-2">
+                <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-700">
+                  {([['now', 'Сразу'], ['time', 'Время'], ['price', 'Цена']] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setStartMode(value)}
+                      className={`py-2 px-2 text-xs font-bold rounded-lg transition-all whitespace-nowrap ${startMode === value ? 'bg-slate-800 text-amber-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {startMode === 'time' && (
+                  <input
+                    type="time"
+                    value={startAt}
+                    onChange={(e) => setStartAt(e.target.value)}
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-xl py-2 px-3 text-center text-white font-mono focus:outline-none focus:border-amber-500 transition-all"
+                  />
+                )}
+                {startMode === 'price' && (
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    value={triggerPrice}
+                    onChange={(e) => setTriggerPrice(e.target.value)}
+                    placeholder={formatInputPrice(currentPrice)}
+                    title="Симуляция стартует, когда реальная цена дойдёт до этого уровня"
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-xl py-2 px-3 text-center text-white font-mono focus:outline-none focus:border-amber-500 transition-all placeholder-slate-700"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+          </div>
         ) : (
           /* Active Simulation View */
+          <div className="flex flex-col gap-2">
           <div className="flex items-center justify-between gap-4 bg-slate-800/50 p-1 rounded-xl border border-slate-700/50 backdrop-blur-sm">
              <div className="flex-1 flex items-center gap-4 px-3 py-1">
-                <div className="hidden sm:flex items-center justify-center w-10 h-10 rounded-full bg-emerald-500/10 text-emerald-500 animate-pulse">
-                    <Timer size={20} />
+                <div className={`hidden sm:flex items-center justify-center w-10 h-10 rounded-full ${isReverting ? 'bg-teal-500/10 text-teal-400' : isPaused ? 'bg-amber-500/10 text-amber-400' : 'bg-emerald-500/10 text-emerald-500 animate-pulse'}`}>
+                    {isReverting ? <RotateCcw size={20} /> : isPaused ? <Pause size={20} /> : <Timer size={20} />}
                 </div>
                 <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-x-6 gap-y-1">
+                    {isReverting ? (
+                    <>
                     <div className="flex flex-col">
-                        <span className="text-[10px] text-slate-500 uppercase font-bold">Цель</span>
-                        <span className="text-sm sm:text-base font-mono text-white font-bold">${config?.targetPrice}</span>
+                        <span className="text-[10px] text-slate-500 uppercase font-bold">Возврат к рынку</span>
+                        <span className="text-sm sm:text-base font-bold text-teal-400">
+                            {isHolding ? 'Удержание' : REVERT_CURVE_LABELS[config?.revert?.curve ?? RevertCurve.EXPONENTIAL]}
+                        </span>
                     </div>
                     <div className="flex flex-col">
                         <span className="text-[10px] text-slate-500 uppercase font-bold">Осталось</span>
-                        <span className="text-sm sm:text-base font-mono text-emerald-400">
-                            {config ? Math.max(0, Math.ceil((config.endTime - Date.now()) / 60000)) : 0} мин
+                        <span className="text-sm sm:text-base font-mono text-teal-400">
+                            {Math.max(0, Math.ceil((revertTotalMs - revertElapsed) / 60000))} мин
+                        </span>
+                    </div>
+                    <div className="hidden sm:flex flex-col">
+                        <span className="text-[10px] text-slate-500 uppercase font-bold">Цена</span>
+                        <span className="text-sm sm:text-base font-mono text-white font-bold">${formatInputPrice(currentPrice)}</span>
+                    </div>
+                    </>
+                    ) : (
+                    <>
+                    <div className="flex flex-col">
+                        <span className="text-[10px] text-slate-500 uppercase font-bold">
+                            {activeKeyframes.length > 1 ? `Точка ${nextKeyframeIndex + 1}/${activeKeyframes.length}` : 'Цель'}
+                        </span>
+                        <span className="text-sm sm:text-base font-mono text-white font-bold">${nextKeyframe?.price ?? config?.targetPrice}</span>
+                    </div>
+                    <div className="flex flex-col">
+                        <span className="text-[10px] text-slate-500 uppercase font-bold">{isPaused ? 'Пауза' : 'Осталось'}</span>
+                        <span className={`text-sm sm:text-base font-mono ${isPaused ? 'text-amber-400' : 'text-emerald-400'}`}>
+                            {config ? Math.max(0, Math.ceil((config.durationMs - elapsed) / 60000)) : 0} мин
                         </span>
                     </div>
                      <div className="hidden sm:flex flex-col">
                         <span className="text-[10px] text-slate-500 uppercase font-bold">Рынок</span>
-                        <span className={`text-sm sm:text-base font-bold capitalize ${config?.volatility === Volatility.HIGH ? 'text-rose-400' : config?.volatility === Volatility.LOW ? 'text-emerald-400' : 'text-blue-400'}`}>
-                           {config?.volatility === Volatility.HIGH ? 'Шторм' : config?.volatility === Volatility.LOW ? 'Спокойно' : 'Норм'}
+                        <span className={`text-sm sm:text-base font-bold capitalize ${VOLATILITY_COLORS[segmentVolatility]}`}>
+                           {VOLATILITY_LABELS[segmentVolatility]}
+                           <span className="text-slate-500 font-normal normal-case"> · {MODEL_LABELS[config?.model ?? PathModel.CLASSIC]}</span>
                         </span>
                     </div>
+                    </>
+                    )}
                     <div className="col-span-2 sm:col-span-1 flex flex-col justify-center mt-1 sm:mt-0">
                         <div className="h-1.5 w-full bg-slate-700 rounded-full overflow-hidden">
                             <div 
-                                className="h-full bg-emerald-500 transition-all duration-1000 ease-linear"
+                                className={`h-full transition-all duration-1000 ease-linear ${isReverting ? 'bg-teal-500' : isPaused ? 'bg-amber-500' : 'bg-emerald-500'}`}
                                 style={{ width: `${calculateProgress()}%` }}
                             />
                         </div>
@@ -194,11 +599,92 @@ export const SimulationControl: React.FC<SimulationControlProps> = ({
              
              <button
               onClick={onStop}
+              title={isReverting ? 'Сразу вернуть рыночную цену' : 'Остановить и вернуться к рынку'}
               className="h-12 w-12 flex items-center justify-center bg-rose-600 hover:bg-rose-500 text-white rounded-lg transition-colors shadow-lg shadow-rose-900/20 active:scale-95 m-1"
             >
               <Square size={20} fill="currentColor" />
             </button>
           </div>
+
+          {controls && (
+            <div className="flex flex-wrap items-center gap-2">
+              {isPaused ? (
+                <button
+                  onClick={controls.resume}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white transition-colors"
+                >
+                  <Play size={12} fill="currentColor" />
+                  Продолжить
+                </button>
+              ) : (
+                <div className="flex items-center gap-1 bg-slate-950 p-1 rounded-lg border border-slate-700">
+                  <button
+                    onClick={() => controls.pause(PauseMode.FREEZE)}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs font-bold rounded-md text-slate-400 hover:text-amber-400 hover:bg-slate-800 transition-all"
+                    title="Пауза, цена замирает"
+                  >
+                    <Snowflake size={12} />
+                    Заморозить
+                  </button>
+                  <button
+                    onClick={() => controls.pause(PauseMode.DRIFT)}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs font-bold rounded-md text-slate-400 hover:text-amber-400 hover:bg-slate-800 transition-all"
+                    title="Пауза, цена колеблется вокруг текущего уровня"
+                  >
+                    <Wind size={12} />
+                    Боковик
+                  </button>
+                </div>
+              )}
+
+              <div className="flex items-center gap-1 bg-slate-950 p-1 rounded-lg border border-slate-700">
+                {[5, 15].map(min => (
+                  <button
+                    key={min}
+                    onClick={() => controls.extend(min * 60 * 1000)}
+                    className="flex items-center gap-0.5 px-2 py-1 text-xs font-bold rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-all"
+                    title="Продлить"
+                  >
+                    <Plus size={10} />
+                    {min} мин
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-1 bg-slate-950 p-1 rounded-lg border border-slate-700">
+                {Object.values(Volatility).map(v => (
+                  <button
+                    key={v}
+                    onClick={() => controls.setVolatility(v)}
+                    className={`px-2 py-1 text-xs font-bold rounded-md transition-all ${segmentVolatility === v ? `bg-slate-800 ${VOLATILITY_COLORS[v]}` : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {VOLATILITY_LABELS[v]}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-1 bg-slate-950 p-1 rounded-lg border border-slate-700">
+                <Target size={12} className="text-emerald-500 ml-1" />
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={newTarget}
+                  onChange={(e) => setNewTarget(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRetarget()}
+                  placeholder={formatInputPrice(config?.targetPrice ?? currentPrice)}
+                  className="w-28 bg-transparent py-1 px-1 text-xs text-white font-mono focus:outline-none placeholder-slate-600"
+                />
+                <button
+                  onClick={handleRetarget}
+                  className="p-1 rounded-md text-slate-400 hover:text-emerald-400 hover:bg-slate-800 transition-all"
+                  title="Новая цель"
+                >
+                  <Check size={12} />
+                </button>
+              </div>
+            </div>
+          )}
+          </div>
         )}
       </div>
     </div>
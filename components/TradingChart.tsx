@@ -1,22 +1,406 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
-  AreaChart,
-  Area,
+  ComposedChart,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  Customized,
+  ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
-import { DataPoint, TimeFrame } from '../types';
-import { RefreshCcw, ChevronsRight } from 'lucide-react';
+import { Candle, ChartAnchor, ChartType, DataPoint, Drawing, DrawingType, IndicatorConfig, IndicatorType, SimulationConfig, TimeFrame } from '../types';
+import { RefreshCcw, ChevronsRight, Activity, Minus, Slash, Square, Percent, Type, Link, Trash2, Ruler, Eye, EyeOff } from 'lucide-react';
+import { CANDLE_INTERVALS, mergeCandles, toHeikinAshi } from '../services/candles';
+import { createIndicatorEngine, IndicatorEngine, INDICATORS, resolveIndicatorParams } from '../services/indicators';
+import { IndicatorPanel } from './IndicatorPanel';
+import { ChartCanvas } from './ChartCanvas';
+import { lttb, peaksOf, reduceRuns, sliceByTime, upperBound } from '../services/series';
+import { createDrawing, DRAWINGS, fibPrice, FIB_LEVELS } from '../services/drawings';
+import { getProjectedEndTime } from '../services/simulationCommands';
+import { formatCountdown } from './ScheduledQueue';
+
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#f43f5e';
+
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  [ChartType.LINE]: 'Линия',
+  [ChartType.CANDLES]: 'Свечи',
+  [ChartType.OHLC]: 'Бары',
+  [ChartType.HEIKIN_ASHI]: 'HA'
+};
+
+/** Heights of the panes under the price, the one at the bottom adds the time axis */
+const VOLUME_PANE_HEIGHT = 50;
+const INDICATOR_PANE_HEIGHT = 80;
+const TIME_AXIS_HEIGHT = 30;
+
+const MACD_SIGNAL_COLOR = '#f97316';
+const PRICE_MARGIN_TOP = 20;
+const SIMULATION_COLOR = '#f59e0b';
+
+const DRAWING_ICONS: Record<DrawingType, React.ElementType> = {
+  [DrawingType.HORIZONTAL]: Minus,
+  [DrawingType.TREND]: Slash,
+  [DrawingType.RECTANGLE]: Square,
+  [DrawingType.FIBONACCI]: Percent,
+  [DrawingType.TEXT]: Type
+};
+
+/** Chart data key of output `index` of an indicator */
+const indicatorKey = (indicator: IndicatorConfig, index: number) => `${indicator.id}:${index}`;
+
+const formatVolume = (volume: number) => {
+  if (volume >= 1e6) return `${(volume / 1e6).toFixed(1)}M`;
+  if (volume >= 1e3) return `${(volume / 1e3).toFixed(1)}K`;
+  return volume.toFixed(volume < 10 ? 2 : 0);
+};
+
+// <Customized /> gets the chart internals: axis maps with d3 scales and the plot area
+const plotScales = (chart: any) => ({
+  x: (Object.values(chart.xAxisMap ?? {})[0] as any)?.scale,
+  y: (Object.values(chart.yAxisMap ?? {})[0] as any)?.scale,
+  offset: chart.offset as { left: number; top: number; width: number; height: number } | undefined
+});
+
+interface HistogramBar {
+  time: number;
+  value: number;
+  color: string;
+}
+
+/**
+ * Bars from zero, one per candle interval (volume, MACD histogram). Zoomed out
+ * past a bar per pixel, only the tallest of each pixel's bars is drawn, so the
+ * SVG stays the size of the plot however long the history.
+ */
+const HistogramLayer: React.FC<{ bars: HistogramBar[]; intervalMs: number; clipId: string }> = ({ bars, intervalMs, clipId, ...chart }) => {
+  const { x, y, offset } = plotScales(chart);
+  if (!x || !y || !offset) return null;
+  const width = Math.max(1, Math.abs(x(intervalMs) - x(0)) * 0.7);
+  const [from, to] = x.domain() as [number, number];
+  const shown = bars.length === 0 ? bars : peaksOf(
+    bars,
+    Math.ceil(offset.width * (bars[bars.length - 1].time - bars[0].time + intervalMs) / Math.max(1, to - from)),
+    bar => Math.abs(bar.value)
+  );
+
+  return (
+    <g>
+      <defs>
+        <clipPath id={clipId}>
+          <rect x={offset.left} y={offset.top} width={offset.width} height={offset.height} />
+        </clipPath>
+      </defs>
+      <g clipPath={`url(#${clipId})`} opacity={0.5}>
+        {shown.map(bar => (
+          <rect
+            key={bar.time}
+            x={x(bar.time + intervalMs / 2) - width / 2}
+            y={Math.min(y(bar.value), y(0))}
+            width={width}
+            height={Math.abs(y(0) - y(bar.value))}
+            fill={bar.color}
+          />
+        ))}
+      </g>
+    </g>
+  );
+};
+
+/** Compact span like `1д 4ч`, `12м 30с` */
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(Math.abs(ms) / 1000);
+  const units: [string, number][] = [['д', 86400], ['ч', 3600], ['м', 60], ['с', 1]];
+  const parts: string[] = [];
+  let rest = seconds;
+  for (const [label, size] of units) {
+    if (rest >= size || (parts.length === 0 && size === 1)) {
+      parts.push(`${Math.floor(rest / size)}${label}`);
+      rest %= size;
+    }
+    if (parts.length === 2) break;
+  }
+  return parts.join(' ');
+};
+
+interface Measurement {
+  from: ChartAnchor;
+  to: ChartAnchor;
+}
+
+/** Box between the two measured points with price delta, % change, elapsed time and bar count */
+const MeasureLayer: React.FC<{ measure: Measurement; intervalMs: number }> = ({ measure, intervalMs, ...chart }) => {
+  const { x, y, offset } = plotScales(chart);
+  if (!x || !y || !offset) return null;
+  const { from, to } = measure;
+  const x1 = x(from.time);
+  const y1 = y(from.price);
+  const x2 = x(to.time);
+  const y2 = y(to.price);
+  const delta = to.price - from.price;
+  const color = delta >= 0 ? UP_COLOR : DOWN_COLOR;
+  const sign = delta >= 0 ? '+' : '';
+  const bars = Math.round(Math.abs(to.time - from.time) / intervalMs);
+  const lines = [
+    `${sign}${delta.toFixed(2)} (${sign}${(from.price ? (delta / from.price) * 100 : 0).toFixed(2)}%)`,
+    `${bars} бар, ${formatDuration(to.time - from.time)}`
+  ];
+  const labelWidth = 150;
+  const labelHeight = 36;
+  // Label under a rising box and over a falling one, kept inside the plot
+  const labelX = Math.max(offset.left, Math.min(offset.left + offset.width - labelWidth, (x1 + x2) / 2 - labelWidth / 2));
+  const labelY = Math.max(offset.top, Math.min(offset.top + offset.height - labelHeight, delta >= 0 ? Math.min(y1, y2) - labelHeight - 6 : Math.max(y1, y2) + 6));
+
+  return (
+    <g pointerEvents="none">
+      <rect
+        x={Math.min(x1, x2)}
+        y={Math.min(y1, y2)}
+        width={Math.abs(x2 - x1)}
+        height={Math.abs(y2 - y1)}
+        fill={color}
+        fillOpacity={0.15}
+      />
+      <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={1} strokeDasharray="4 3" />
+      <rect x={labelX} y={labelY} width={labelWidth} height={labelHeight} rx={4} fill={color} fillOpacity={0.9} />
+      {lines.map((line, i) => (
+        <text
+          key={i}
+          x={labelX + labelWidth / 2}
+          y={labelY + 14 + i * 14}
+          textAnchor="middle"
+          fill="#fff"
+          fontSize={11}
+          fontFamily="monospace"
+          fontWeight={i === 0 ? 'bold' : undefined}
+        >
+          {line}
+        </text>
+      ))}
+    </g>
+  );
+};
+
+interface CrosshairPosition {
+  clientX: number;
+  clientY: number;
+}
+
+interface CrosshairProps {
+  /** Hands out the setter, so pointer moves re-render only the crosshair and not the charts */
+  register: (setPosition: (position: CrosshairPosition | null) => void) => void;
+  containerRef: React.RefObject<HTMLDivElement>;
+  toTime: (clientX: number) => number | null;
+  toPrice: (clientY: number) => number | null;
+  formatTime: (time: number) => string;
+  textColor: string;
+}
+
+/** Crosshair over all panes with its time on the time axis and its price on the price scale */
+const Crosshair: React.FC<CrosshairProps> = ({ register, containerRef, toTime, toPrice, formatTime, textColor }) => {
+  const [position, setPosition] = useState<CrosshairPosition | null>(null);
+  useEffect(() => {
+    register(setPosition);
+    return () => register(() => {});
+  }, []);
+
+  const container = containerRef.current;
+  if (!position || !container) return null;
+  const time = toTime(position.clientX);
+  if (time == null) return null;
+  const price = toPrice(position.clientY);
+  const rect = container.getBoundingClientRect();
+  const left = position.clientX - rect.left;
+  const top = position.clientY - rect.top;
+  const lineStyle = { borderColor: textColor, opacity: 0.5 };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-10">
+      <div className="absolute top-0 border-l border-dashed" style={{ ...lineStyle, left, bottom: TIME_AXIS_HEIGHT }} />
+      <div
+        className="absolute bottom-0 flex items-center -translate-x-1/2"
+        style={{ left, height: TIME_AXIS_HEIGHT }}
+      >
+        <span className="text-[10px] font-mono px-1.5 py-0.5 rounded-[2px] bg-slate-700 text-slate-100 whitespace-nowrap">
+          {formatTime(time)}
+        </span>
+      </div>
+      {price != null && (
+        <>
+          <div className="absolute left-0 right-[60px] border-t border-dashed" style={{ ...lineStyle, top }} />
+          <div className="absolute right-0 w-[60px] flex justify-center -translate-y-1/2" style={{ top }}>
+            <span className="text-[11px] font-mono px-1 py-0.5 rounded-[2px] bg-slate-700 text-slate-100 min-w-[50px] text-center">
+              {price.toFixed(2)}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface DrawingLayerProps {
+  drawings: Drawing[];
+  selectedId: string | null;
+  isEditable: (drawing: Drawing) => boolean;
+  onSelect: (id: string) => void;
+  clipId: string;
+}
+
+/** Drawings over the price pane, mapped through the chart scales on every render */
+const DrawingLayer: React.FC<DrawingLayerProps> = ({ drawings, selectedId, isEditable, onSelect, clipId, ...chart }) => {
+  const { x, y, offset } = plotScales(chart);
+  if (!x || !y || !offset) return null;
+  const right = offset.left + offset.width;
+
+  const renderShape = (drawing: Drawing) => {
+    const [a, b] = drawing.points;
+    const x1 = x(a.time);
+    const y1 = y(a.price);
+    const x2 = b ? x(b.time) : x1;
+    const y2 = b ? y(b.price) : y1;
+    const stroke = drawing.color;
+
+    switch (drawing.type) {
+      case DrawingType.HORIZONTAL:
+        return (
+          <>
+            <line x1={offset.left} x2={right} y1={y1} y2={y1} stroke={stroke} />
+            <text x={right - 4} y={y1 - 4} textAnchor="end" fill={stroke} fontSize={10} fontFamily="monospace">
+              {a.price.toFixed(2)}
+            </text>
+          </>
+        );
+      case DrawingType.TREND:
+        return <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={stroke} />;
+      case DrawingType.RECTANGLE:
+        return (
+          <rect
+            x={Math.min(x1, x2)}
+            y={Math.min(y1, y2)}
+            width={Math.abs(x2 - x1)}
+            height={Math.abs(y2 - y1)}
+            stroke={stroke}
+            fill={stroke}
+            fillOpacity={0.1}
+          />
+        );
+      case DrawingType.FIBONACCI: {
+        const left = Math.min(x1, x2);
+        return (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={stroke} strokeDasharray="3 3" opacity={0.5} />
+            {FIB_LEVELS.map(level => {
+              const price = fibPrice(drawing, level);
+              return (
+                <g key={level}>
+                  <line x1={left} x2={Math.max(x1, x2)} y1={y(price)} y2={y(price)} stroke={stroke} opacity={level === 0 || level === 1 ? 1 : 0.6} />
+                  <text x={left + 4} y={y(price) - 3} fill={stroke} fontSize={10} fontFamily="monospace">
+                    {level} ({price.toFixed(2)})
+                  </text>
+                </g>
+              );
+            })}
+          </>
+        );
+      }
+      case DrawingType.TEXT:
+        return (
+          <text x={x1} y={y1} fill={stroke} fontSize={12} fontWeight="bold" dominantBaseline="middle">
+            {drawing.text}
+          </text>
+        );
+    }
+  };
+
+  return (
+    <g>
+      <defs>
+        <clipPath id={clipId}>
+          <rect x={offset.left} y={offset.top} width={offset.width} height={offset.height} />
+        </clipPath>
+      </defs>
+      <g clipPath={`url(#${clipId})`}>
+        {drawings.map(drawing => {
+          const editable = isEditable(drawing);
+          const selected = drawing.id === selectedId;
+          return (
+            <g
+              key={drawing.id}
+              strokeWidth={selected ? 2 : 1.2}
+              style={{ cursor: editable ? 'pointer' : undefined, pointerEvents: editable ? 'visiblePainted' : 'none' }}
+              onMouseDown={(e) => {
+                if (!editable) return;
+                // Keeps the chart from starting a pan
+                e.stopPropagation();
+                onSelect(drawing.id);
+              }}
+            >
+              {renderShape(drawing)}
+              {selected && drawing.points.map((point, i) => (
+                <circle key={i} cx={x(point.time)} cy={y(point.price)} r={3.5} fill="#0f172a" stroke={drawing.color} />
+              ))}
+            </g>
+          );
+        })}
+      </g>
+    </g>
+  );
+};
+
+const CandleTooltip: React.FC<{ active?: boolean; payload?: any[]; label?: number; formatTime: (time: number) => string }> = ({
+  active,
+  payload,
+  label,
+  formatTime
+}) => {
+  const item = payload?.find(p => p.dataKey === 'close');
+  if (!active || !item) return null;
+  const candle: Candle = item.payload;
+  const rows: [string, string][] = [
+    ['O', candle.open.toFixed(2)],
+    ['H', candle.high.toFixed(2)],
+    ['L', candle.low.toFixed(2)],
+    ['C', candle.close.toFixed(2)],
+    ['V', formatVolume(candle.volume)]
+  ];
+  return (
+    <div className="rounded px-3 py-2 text-xs shadow-lg border border-slate-700" style={{ backgroundColor: 'rgba(15, 23, 42, 0.95)', color: '#f1f5f9' }}>
+      <div className="mb-1 text-slate-400">{label != null ? formatTime(label) : ''}</div>
+      <div className="grid grid-cols-[auto_auto] gap-x-3 font-mono">
+        {rows.map(([name, value]) => (
+          <React.Fragment key={name}>
+            <span className="text-slate-500">{name}</span>
+            <span style={{ color: candle.close >= candle.open ? UP_COLOR : DOWN_COLOR }}>{value}</span>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
 
 interface TradingChartProps {
   data: DataPoint[];
+  /** Bumped when points are appended to `data` in place */
+  dataVersion?: number;
   color: string;
   symbol: string;
   activeTimeFrame: TimeFrame;
   onTimeFrameChange: (tf: TimeFrame) => void;
+  indicators?: IndicatorConfig[];
+  onIndicatorsChange?: (indicators: IndicatorConfig[]) => void;
+  drawings?: Drawing[];
+  onDrawingsChange?: (drawings: Drawing[]) => void;
+  /** Simulation new drawings may be attached to; its own drawings stay editable */
+  attachSimulationId?: string;
+  /** Own simulation on this chart; its segments and markers can be revealed, viewers never get one */
+  simulation?: SimulationConfig;
+  /** Asked for when the view reaches past the oldest point; the caller dedupes and caps */
+  onLoadOlder?: () => void;
+  isLoadingOlder?: boolean;
   isWidget?: boolean;
   widgetOptions?: {
       showHeader: boolean;
@@ -30,10 +414,19 @@ interface TradingChartProps {
 
 export const TradingChart: React.FC<TradingChartProps> = ({ 
   data, 
+  dataVersion,
   color, 
   symbol,
   activeTimeFrame,
   onTimeFrameChange,
+  indicators = [],
+  onIndicatorsChange,
+  drawings = [],
+  onDrawingsChange,
+  attachSimulationId,
+  simulation,
+  onLoadOlder,
+  isLoadingOlder = false,
   isWidget = false,
   widgetOptions = { 
     showHeader: true, 
@@ -45,6 +438,26 @@ export const TradingChart: React.FC<TradingChartProps> = ({
   }
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const pricePaneRef = useRef<HTMLDivElement>(null);
+  const [paneSize, setPaneSize] = useState({ width: 0, height: 0 });
+  const [chartType, setChartType] = useState<ChartType>(ChartType.LINE);
+  const [showIndicatorPanel, setShowIndicatorPanel] = useState(false);
+  const indicatorEngineRef = useRef<{ key: string; engine: IndicatorEngine } | null>(null);
+
+  // Drawing State
+  const [drawingTool, setDrawingTool] = useState<DrawingType | null>(null);
+  const [draftDrawing, setDraftDrawing] = useState<Drawing | null>(null);
+  const [selectedDrawingId, setSelectedDrawingId] = useState<string | null>(null);
+  const [attachDrawings, setAttachDrawings] = useState(false);
+
+  // Measure State (shift-drag, or the ruler button for touch)
+  const [measure, setMeasure] = useState<Measurement | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [isMeasureMode, setIsMeasureMode] = useState(false);
+  const setCrosshair = useRef<(position: CrosshairPosition | null) => void>(() => {});
+
+  // Simulation markup, off by default so the chart looks the way viewers see it
+  const [showSimulationMarkup, setShowSimulationMarkup] = useState(false);
   const textColor = widgetOptions.textColor || '#94a3b8'; // Default slate-400
   
   // Viewport State
@@ -94,7 +507,29 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     
     // Smoothly follow the head
     setXDomain([lastTime - currentDuration, lastTime]);
-  }, [data, isAutoScroll]); 
+  }, [data, dataVersion, isAutoScroll]); 
+
+  // Delete removes the selected drawing, Escape drops the active tool
+  useEffect(() => {
+    if (!drawingTool && !selectedDrawingId && !measure && !isMeasureMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') {
+        setDrawingTool(null);
+        setDraftDrawing(null);
+        setSelectedDrawingId(null);
+        setMeasure(null);
+        setIsMeasuring(false);
+        setIsMeasureMode(false);
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedDrawingId && onDrawingsChange) {
+        onDrawingsChange(drawings.filter(d => d.id !== selectedDrawingId || !isDrawingEditable(d)));
+        setSelectedDrawingId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   const formatTime = (time: number) => {
     const date = new Date(time);
@@ -130,6 +565,37 @@ export const TradingChart: React.FC<TradingChartProps> = ({
   // --- Event Handlers (Mouse) ---
 
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (drawingTool && onDrawingsChange) {
+        const anchor = pointerToAnchor(e);
+        if (!anchor) return;
+        const drawing: Drawing = {
+            ...createDrawing(drawingTool, anchor),
+            simulationId: attachDrawings ? attachSimulationId : undefined
+        };
+        if (DRAWINGS[drawingTool].anchors === 2) {
+            setDraftDrawing(drawing);
+            return;
+        }
+        if (drawingTool === DrawingType.TEXT) {
+            const text = window.prompt('Текст заметки')?.trim();
+            if (!text) return;
+            drawing.text = text;
+        }
+        commitDrawing(drawing);
+        return;
+    }
+    setSelectedDrawingId(null);
+
+    if (e.shiftKey || isMeasureMode) {
+        const anchor = pointerToAnchor(e);
+        if (anchor) {
+            setMeasure({ from: anchor, to: anchor });
+            setIsMeasuring(true);
+            return;
+        }
+    }
+    setMeasure(null);
+
     const containerWidth = containerRef.current?.clientWidth || 0;
     const isOverYAxis = e.nativeEvent.offsetX > containerWidth - 60;
 
@@ -146,6 +612,18 @@ export const TradingChart: React.FC<TradingChartProps> = ({
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (!isWidget) setCrosshair.current({ clientX: e.clientX, clientY: e.clientY });
+
+    if (isMeasuring && measure) {
+        const anchor = pointerToAnchor(e);
+        if (anchor) setMeasure({ ...measure, to: anchor });
+        return;
+    }
+    if (draftDrawing) {
+        const anchor = pointerToAnchor(e);
+        if (anchor) setDraftDrawing({ ...draftDrawing, points: [draftDrawing.points[0], anchor] });
+        return;
+    }
     if ((!isDragging && !isResizingY) || !lastPointerPos.current || !xDomain) return;
 
     const dx = e.clientX - lastPointerPos.current.x;
@@ -172,16 +650,42 @@ export const TradingChart: React.FC<TradingChartProps> = ({
   };
 
   const handleMouseUp = () => {
+    if (isMeasuring) {
+        setIsMeasuring(false);
+        setIsMeasureMode(false);
+    }
+    if (draftDrawing) {
+        const [a, b] = draftDrawing.points;
+        // A plain click leaves nothing to draw
+        if (a.time !== b.time || a.price !== b.price) commitDrawing(draftDrawing);
+        setDraftDrawing(null);
+    }
     setIsDragging(false);
     setIsResizingY(false);
     lastPointerPos.current = null;
     document.body.style.cursor = 'default';
   };
 
+  const handleMouseLeave = () => {
+    setCrosshair.current(null);
+    handleMouseUp();
+  };
+
   // --- Event Handlers (Touch - Multi-touch support) ---
 
   const handleTouchStart = (e: React.TouchEvent) => {
     if (!xDomain) return;
+
+    // Ruler: one finger measures instead of panning
+    if (isMeasureMode && e.touches.length === 1) {
+        const anchor = pointerToAnchor(e.touches[0]);
+        if (anchor) {
+            setMeasure({ from: anchor, to: anchor });
+            setIsMeasuring(true);
+            return;
+        }
+    }
+    setMeasure(null);
     
     // Stop auto scroll on interaction
     setIsAutoScroll(false);
@@ -218,6 +722,14 @@ export const TradingChart: React.FC<TradingChartProps> = ({
 
   const handleTouchMove = (e: React.TouchEvent) => {
     if (!xDomain) return;
+
+    if (isMeasuring && measure && e.touches.length === 1) {
+        const touch = e.touches[0];
+        const anchor = pointerToAnchor(touch);
+        if (anchor) setMeasure({ ...measure, to: anchor });
+        setCrosshair.current({ clientX: touch.clientX, clientY: touch.clientY });
+        return;
+    }
     
     // 1. PINCH ZOOM (2 fingers)
     if (e.touches.length === 2 && lastTouchDist.current) {
@@ -268,6 +780,11 @@ export const TradingChart: React.FC<TradingChartProps> = ({
   };
 
   const handleTouchEnd = () => {
+    if (isMeasuring) {
+        setIsMeasuring(false);
+        setIsMeasureMode(false);
+        setCrosshair.current(null);
+    }
     setIsDragging(false);
     setIsPinching(false);
     setIsResizingY(false);
@@ -317,14 +834,76 @@ export const TradingChart: React.FC<TradingChartProps> = ({
   const visibleData = useMemo(() => {
     if (!xDomain || data.length === 0) return data.slice(-100);
     const duration = xDomain[1] - xDomain[0];
-    const minTime = xDomain[0] - duration * 0.5;
-    const maxTime = xDomain[1] + duration * 0.5;
-    
-    const startIndex = data.findIndex(d => d.time >= minTime);
-    if (startIndex === -1) return [];
-    
-    return data.slice(startIndex).filter(d => d.time <= maxTime);
-  }, [data, xDomain]);
+    return sliceByTime(data, xDomain[0] - duration * 0.5, xDomain[1] + duration * 0.5);
+  }, [data, dataVersion, xDomain]);
+
+  // Panned or zoomed out past the oldest point: fetch the page before it
+  const oldestTime = data.length > 0 ? data[0].time : null;
+  useEffect(() => {
+    if (!onLoadOlder || !xDomain || oldestTime == null) return;
+    if (xDomain[0] < oldestTime) onLoadOlder();
+  }, [xDomain, oldestTime]);
+
+  // Price pane size, for the canvas and for downsampling to its width
+  useEffect(() => {
+    const pane = pricePaneRef.current;
+    if (!pane) return;
+    const observer = new ResizeObserver(() => setPaneSize({ width: pane.clientWidth, height: pane.clientHeight }));
+    observer.observe(pane);
+    return () => observer.disconnect();
+  }, []);
+
+  const isCandleMode = chartType !== ChartType.LINE;
+  const intervalMs = CANDLE_INTERVALS[activeTimeFrame];
+
+  // Candles and indicators follow the data incrementally: a new tick only
+  // updates the forming candle. A new coin, interval or indicator set starts over.
+  const indicatorEngineKey = `${symbol}|${intervalMs}|${JSON.stringify(indicators)}`;
+  const series = useMemo(() => {
+    if (indicatorEngineRef.current?.key !== indicatorEngineKey) {
+      indicatorEngineRef.current = { key: indicatorEngineKey, engine: createIndicatorEngine(indicators, intervalMs) };
+    }
+    return indicatorEngineRef.current.engine.update(data);
+  }, [data, dataVersion, indicatorEngineKey]);
+
+  // Same window as visibleData, in candle indexes
+  const [firstCandle, lastCandle] = useMemo(() => {
+    const all = series.candles;
+    if (visibleData.length === 0) return [0, 0];
+    const from = upperBound(all, visibleData[0].time - intervalMs);
+    return [from, Math.max(from, upperBound(all, visibleData[visibleData.length - 1].time))];
+  }, [series, series.version, visibleData, intervalMs]);
+
+  const candles = useMemo(() => series.candles.slice(firstCandle, lastCandle), [series, series.version, firstCandle, lastCandle]);
+
+  // visibleData spans twice the viewport: about one point (or candle) per pixel of the plot
+  const sampleSize = Math.max(100, Math.round((paneSize.width - 60) * 2));
+
+  // Zoomed out past a candle per pixel, the candles sharing a pixel are drawn as one
+  const chartCandles = useMemo(() => {
+    const shown = chartType === ChartType.HEIKIN_ASHI ? toHeikinAshi(candles) : candles;
+    return reduceRuns(shown.length, sampleSize, (from, to) => mergeCandles(shown, from, to));
+  }, [candles, chartType, sampleSize]);
+  const volumeCandles = useMemo(
+    () => reduceRuns(candles.length, sampleSize, (from, to) => mergeCandles(candles, from, to)),
+    [candles, sampleSize]
+  );
+  const maxVolume = useMemo(() => volumeCandles.reduce((max, c) => Math.max(max, c.volume), 0), [volumeCandles]);
+  const showVolume = !isWidget && maxVolume > 0;
+
+  const priceIndicators = indicators.filter(i => INDICATORS[i.type].pane === 'price');
+  const paneIndicators = indicators.filter(i => INDICATORS[i.type].pane === 'separate');
+
+  // Indicator values at the candle centers like the candles themselves; of
+  // merged candles, the last one's
+  const indicatorRows = useMemo(() => reduceRuns(candles.length, sampleSize, (_, to) => {
+    const row: Record<string, number | null> = { time: candles[to - 1].time + intervalMs / 2 };
+    indicators.forEach(indicator => {
+      const values = series.values[indicator.id]?.[firstCandle + to - 1];
+      values?.forEach((value, k) => { row[indicatorKey(indicator, k)] = value; });
+    });
+    return row;
+  }), [candles, indicators, series, firstCandle, intervalMs, sampleSize]);
 
   const chartYDomain = useMemo(() => {
     if (!isAutoY && yDomain) return yDomain;
@@ -333,10 +912,12 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     let min = Infinity;
     let max = -Infinity;
     
+    // Wicks have to fit too once they are drawn
     for (let i = 0; i < visibleData.length; i++) {
-        const p = visibleData[i].price;
-        if (p < min) min = p;
-        if (p > max) max = p;
+        const low = isCandleMode ? visibleData[i].low ?? visibleData[i].price : visibleData[i].price;
+        const high = isCandleMode ? visibleData[i].high ?? visibleData[i].price : visibleData[i].price;
+        if (low < min) min = low;
+        if (high > max) max = high;
     }
     
     const padding = (max - min) * 0.15;
@@ -345,15 +926,144 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     if (min === max) return [min * 0.9, max * 1.1];
     
     return [min - padding, max + padding];
-  }, [visibleData, isAutoY, yDomain]);
+  }, [visibleData, isAutoY, yDomain, isCandleMode]);
 
   const currentPrice = data.length > 0 ? data[data.length - 1].price : 0;
+
+  const lineData = useMemo(() => lttb(visibleData, sampleSize), [visibleData, sampleSize]);
+
+  // Time ranges of consecutive simulated points in view
+  const simulatedSegments = useMemo(() => {
+    if (!simulation || !showSimulationMarkup) return [];
+    const segments: [number, number][] = [];
+    let start: number | null = null;
+    visibleData.forEach((point, i) => {
+      if (point.isSimulation && start == null) start = point.time;
+      const next = visibleData[i + 1];
+      if (start != null && (!next || !next.isSimulation)) {
+        segments.push([start, point.time]);
+        start = null;
+      }
+    });
+    return segments;
+  }, [visibleData, simulation, showSimulationMarkup]);
+
+  const simulationMarkup = simulation && showSimulationMarkup && !simulation.pending ? (() => {
+    const now = Date.now();
+    const endTime = simulation.revertStartedAt ?? getProjectedEndTime(simulation, now);
+    return {
+      startTime: simulation.startTime,
+      endTime,
+      // Target guide only while the path is still heading there
+      countdown: simulation.revertStartedAt == null ? formatCountdown(endTime - now) : null
+    };
+  })() : null;
+
+  // Time axis sits under the lowest pane
+  const lowerPaneCount = (showVolume ? 1 : 0) + paneIndicators.length;
+  const priceAxisHeight = lowerPaneCount > 0 ? 0 : TIME_AXIS_HEIGHT;
+  const priceToY = (price: number) => {
+    const pane = pricePaneRef.current;
+    if (!pane || !chartYDomain) return 0;
+    const height = pane.clientHeight - priceAxisHeight - PRICE_MARGIN_TOP;
+    return PRICE_MARGIN_TOP + Math.max(0, Math.min(height, (1 - (price - chartYDomain[0]) / (chartYDomain[1] - chartYDomain[0])) * height));
+  };
+
+  // Plot area of the price pane in client coordinates (the price scale takes the right 60px)
+  const pricePlotBox = () => {
+    const pane = pricePaneRef.current;
+    if (!pane) return null;
+    const rect = pane.getBoundingClientRect();
+    return {
+      left: rect.left,
+      top: rect.top + PRICE_MARGIN_TOP,
+      width: rect.width - 60,
+      height: rect.height - priceAxisHeight - PRICE_MARGIN_TOP
+    };
+  };
+
+  // Time under a client x, null outside of the plot; every pane shares the time scale
+  const clientToTime = (clientX: number): number | null => {
+    const box = pricePlotBox();
+    if (!box || !xDomain) return null;
+    const px = clientX - box.left;
+    if (px < 0 || px > box.width) return null;
+    return xDomain[0] + (px / box.width) * (xDomain[1] - xDomain[0]);
+  };
+
+  // Price under a client y, null outside of the price pane
+  const clientToPrice = (clientY: number): number | null => {
+    const box = pricePlotBox();
+    if (!box || !chartYDomain) return null;
+    const py = clientY - box.top;
+    if (py < 0 || py > box.height) return null;
+    return chartYDomain[1] - (py / box.height) * (chartYDomain[1] - chartYDomain[0]);
+  };
+
+  const pointerToAnchor = (pointer: { clientX: number; clientY: number }): ChartAnchor | null => {
+    const time = clientToTime(pointer.clientX);
+    const price = clientToPrice(pointer.clientY);
+    return time != null && price != null ? { time, price } : null;
+  };
+
+  // Crosshair label: the full moment, seconds on short ranges
+  const formatCrosshairTime = (time: number) => {
+    const duration = xDomain ? xDomain[1] - xDomain[0] : 0;
+    return new Date(time).toLocaleString('ru-RU', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: duration < 60 * 60 * 1000 ? '2-digit' : undefined
+    });
+  };
+
+  const isDrawingEditable = (drawing: Drawing) =>
+    !!onDrawingsChange && (!drawing.simulationId || drawing.simulationId === attachSimulationId);
+  const selectedDrawing = drawings.find(d => d.id === selectedDrawingId && isDrawingEditable(d));
+
+  const commitDrawing = (drawing: Drawing) => {
+    onDrawingsChange?.([...drawings, drawing]);
+    setDrawingTool(null);
+    setSelectedDrawingId(drawing.id);
+  };
+
+  const deleteDrawings = () => {
+    if (!onDrawingsChange) return;
+    if (selectedDrawing) {
+        onDrawingsChange(drawings.filter(d => d.id !== selectedDrawing.id));
+        setSelectedDrawingId(null);
+    } else if (window.confirm('Удалить все рисунки?')) {
+        onDrawingsChange(drawings.filter(d => !isDrawingEditable(d)));
+    }
+  };
+
+  const xAxisProps = {
+    dataKey: 'time',
+    type: 'number' as const,
+    domain: xDomain || ['auto', 'auto'],
+    tickFormatter: formatTime,
+    stroke: textColor,
+    tick: { fill: textColor, fontSize: 10, fontFamily: 'monospace', opacity: 0.7 },
+    minTickGap: 60,
+    allowDataOverflow: true,
+    height: TIME_AXIS_HEIGHT,
+    tickMargin: 8,
+    axisLine: false,
+    tickLine: false
+  };
   
   const showTopBar = !isWidget || (isWidget && widgetOptions.showTimeframes);
   const showHeaderWidget = isWidget && widgetOptions.showHeader;
 
   return (
-    <div className={`flex flex-col h-full select-none ${isWidget ? '' : 'bg-slate-950'}`}>
+    <div className={`relative flex flex-col h-full select-none ${isWidget ? '' : 'bg-slate-950'}`}>
+
+      {showIndicatorPanel && onIndicatorsChange && (
+        <div className="absolute top-12 right-3 z-30">
+          <IndicatorPanel indicators={indicators} onChange={onIndicatorsChange} />
+        </div>
+      )}
       
       {/* Top Bar: Timeframes & Controls */}
       {showTopBar && (
@@ -389,6 +1099,41 @@ export const TradingChart: React.FC<TradingChartProps> = ({
         </div>
         
         <div className="flex items-center gap-2 pl-2">
+            {!isWidget && simulation && (
+                <button
+                    onClick={() => setShowSimulationMarkup(!showSimulationMarkup)}
+                    className={`p-1.5 rounded-md border transition-all ${showSimulationMarkup ? 'bg-slate-700/80 border-slate-600' : 'border-slate-800 hover:bg-slate-800/50'}`}
+                    style={{ color: showSimulationMarkup ? SIMULATION_COLOR : textColor }}
+                    title={showSimulationMarkup ? 'Скрыть разметку симуляции (зрители её не видят)' : 'Показать разметку симуляции только у себя'}
+                >
+                    {showSimulationMarkup ? <Eye size={12} /> : <EyeOff size={12} />}
+                </button>
+            )}
+            {!isWidget && onIndicatorsChange && (
+                <button
+                    onClick={() => setShowIndicatorPanel(!showIndicatorPanel)}
+                    className={`flex items-center gap-1 px-2 py-1 text-[11px] font-medium rounded-md border transition-all ${showIndicatorPanel ? 'bg-slate-700/80 border-slate-600' : 'border-slate-800 hover:bg-slate-800/50'}`}
+                    style={{ color: indicators.length > 0 || showIndicatorPanel ? color : textColor }}
+                    title="Индикаторы"
+                >
+                    <Activity size={12} />
+                    {indicators.length > 0 ? indicators.length : ''}
+                </button>
+            )}
+            {!isWidget && (
+                <div className="flex gap-0.5 shrink-0 rounded-lg p-0.5 bg-slate-900 border border-slate-800">
+                    {Object.values(ChartType).map(type => (
+                    <button
+                        key={type}
+                        onClick={() => setChartType(type)}
+                        className={`px-2 py-1 text-[11px] font-medium rounded-md transition-all ${chartType === type ? 'bg-slate-700/80 shadow-sm' : 'hover:bg-slate-800/50'}`}
+                        style={{ color: chartType === type ? color : textColor, opacity: chartType === type ? 1 : 0.6 }}
+                    >
+                        {CHART_TYPE_LABELS[type]}
+                    </button>
+                    ))}
+                </div>
+            )}
             <div 
                 className={`flex items-center gap-1.5 text-[10px] md:text-xs font-mono px-2 py-1 rounded-md transition-all cursor-pointer ${isAutoScroll ? '' : 'opacity-60 hover:opacity-100'}`} 
                 style={{ color: isAutoScroll ? color : textColor }}
@@ -424,41 +1169,44 @@ export const TradingChart: React.FC<TradingChartProps> = ({
       {/* Main Chart Container */}
       <div 
         ref={containerRef}
-        className={`flex-1 w-full min-h-0 relative touch-none select-none ${isDragging || isPinching ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+        className={`relative flex-1 w-full min-h-0 flex flex-col touch-none select-none ${isDragging || isPinching ? 'cursor-grabbing' : 'cursor-crosshair'}`}
         onWheel={handleWheel}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
         onTouchStart={handleTouchStart}
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
       >
+      {/* Isolated, so the canvas can sit under the SVG without leaving the pane */}
+      <div ref={pricePaneRef} className="flex-1 w-full min-h-0 relative isolate">
+        {xDomain && chartYDomain && (
+          <ChartCanvas
+            width={Math.max(0, paneSize.width - 60)}
+            height={Math.max(0, paneSize.height - priceAxisHeight - PRICE_MARGIN_TOP)}
+            xDomain={xDomain}
+            yDomain={chartYDomain as [number, number]}
+            chartType={chartType}
+            points={lineData}
+            candles={chartCandles}
+            intervalMs={intervalMs}
+            color={color}
+            upColor={UP_COLOR}
+            downColor={DOWN_COLOR}
+            strokeWidth={widgetOptions.strokeWidth ?? 1.5}
+            fillOpacity={widgetOptions.fillOpacity ?? 0.15}
+            style={{ left: 0, top: PRICE_MARGIN_TOP, zIndex: -1 }}
+          />
+        )}
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={visibleData} margin={{ top: 20, right: 0, left: 0, bottom: 0 }}>
-            <defs>
-              <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor={color} stopOpacity={widgetOptions.fillOpacity ?? 0.15} />
-                <stop offset="95%" stopColor={color} stopOpacity={0} />
-              </linearGradient>
-            </defs>
+          <ComposedChart data={isCandleMode ? chartCandles : lineData} margin={{ top: PRICE_MARGIN_TOP, right: 0, left: 0, bottom: 0 }}>
             {widgetOptions.showGrid !== false && (
                 <CartesianGrid strokeDasharray="3 3" stroke={textColor} vertical={false} opacity={0.1} />
             )}
             <XAxis 
-              dataKey="time" 
-              type="number"
-              domain={xDomain || ['auto', 'auto']}
-              tickFormatter={formatTime} 
-              stroke={textColor}
-              tick={{ fill: textColor, fontSize: 10, fontFamily: 'monospace', opacity: 0.7 }}
-              minTickGap={60}
-              allowDataOverflow={true}
-              height={30}
-              tickMargin={8}
-              axisLine={false}
-              tickLine={false}
-              hide={isWidget && visibleData.length < 50}
+              {...xAxisProps}
+              hide={lowerPaneCount > 0 || (isWidget && visibleData.length < 50)}
             />
             <YAxis 
               type="number"
@@ -474,44 +1222,184 @@ export const TradingChart: React.FC<TradingChartProps> = ({
               axisLine={false}
               tickMargin={10}
             />
-            <Tooltip
-              contentStyle={{ 
-                backgroundColor: 'rgba(15, 23, 42, 0.95)', 
-                borderColor: '#334155', 
-                color: '#f1f5f9',
-                borderRadius: '4px',
-                fontSize: '12px',
-                padding: '8px 12px',
-                boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
-              }}
-              labelFormatter={formatTime}
-              formatter={(value: number) => [value.toFixed(2), 'Price']}
-              isAnimationActive={false}
-              cursor={{ stroke: textColor, strokeWidth: 1, strokeDasharray: '4 4', opacity: 0.5 }}
-            />
-            <Area 
-              type="monotone" 
-              dataKey="price" 
-              stroke={color} 
-              strokeWidth={widgetOptions.strokeWidth ?? 1.5}
-              fillOpacity={1} 
-              fill="url(#colorPrice)" 
-              isAnimationActive={false} 
-            />
-          </AreaChart>
+            {isCandleMode ? (
+              <Tooltip
+                content={<CandleTooltip formatTime={formatTime} />}
+                isAnimationActive={false}
+                cursor={isWidget ? { stroke: textColor, strokeWidth: 1, strokeDasharray: '4 4', opacity: 0.5 } : false}
+              />
+            ) : (
+              <Tooltip
+                contentStyle={{ 
+                  backgroundColor: 'rgba(15, 23, 42, 0.95)', 
+                  borderColor: '#334155', 
+                  color: '#f1f5f9',
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  padding: '8px 12px',
+                  boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
+                }}
+                labelFormatter={formatTime}
+                formatter={(value: number) => [value.toFixed(2), 'Price']}
+                isAnimationActive={false}
+                cursor={isWidget ? { stroke: textColor, strokeWidth: 1, strokeDasharray: '4 4', opacity: 0.5 } : false}
+              />
+            )}
+            {/* The series itself is on the canvas; invisible lines give the tooltip something to snap to */}
+            {isCandleMode ? (
+              <Line dataKey="close" stroke="none" dot={false} activeDot={false} isAnimationActive={false} />
+            ) : (
+              <Line
+                dataKey="price"
+                stroke="none"
+                dot={false}
+                activeDot={{ r: 3, fill: color, stroke: 'none' }}
+                isAnimationActive={false}
+              />
+            )}
+            {priceIndicators.flatMap(indicator => INDICATORS[indicator.type].outputs.map((output, k) => (
+              <Line
+                key={indicatorKey(indicator, k)}
+                data={indicatorRows}
+                dataKey={indicatorKey(indicator, k)}
+                name={output}
+                stroke={indicator.color}
+                strokeWidth={1.2}
+                // Bollinger: dashed middle line, fainter bands
+                strokeDasharray={indicator.type === IndicatorType.BOLLINGER && k === 1 ? '4 4' : undefined}
+                strokeOpacity={indicator.type === IndicatorType.BOLLINGER && k !== 1 ? 0.7 : 1}
+                dot={false}
+                activeDot={false}
+                tooltipType="none"
+                isAnimationActive={false}
+              />
+            )))}
+            {simulatedSegments.map(([from, to]) => (
+              <ReferenceArea
+                key={from}
+                x1={from}
+                x2={to}
+                fill={SIMULATION_COLOR}
+                fillOpacity={0.07}
+                strokeOpacity={0}
+                ifOverflow="hidden"
+              />
+            ))}
+            {simulationMarkup && simulation && (
+              <>
+                <ReferenceLine
+                  x={simulationMarkup.startTime}
+                  stroke={SIMULATION_COLOR}
+                  strokeDasharray="4 4"
+                  ifOverflow="hidden"
+                  label={{ value: 'Старт', position: 'insideTopLeft', fill: SIMULATION_COLOR, fontSize: 10 }}
+                />
+                <ReferenceLine
+                  x={simulationMarkup.endTime}
+                  stroke={SIMULATION_COLOR}
+                  strokeDasharray="4 4"
+                  ifOverflow="hidden"
+                  label={{ value: 'Финиш', position: 'insideTopRight', fill: SIMULATION_COLOR, fontSize: 10 }}
+                />
+                {simulationMarkup.countdown != null && (
+                  <ReferenceLine
+                    y={simulation.targetPrice}
+                    stroke={SIMULATION_COLOR}
+                    strokeDasharray="2 4"
+                    ifOverflow="hidden"
+                    label={{
+                      value: `Цель ${simulation.targetPrice.toFixed(2)} · ${simulationMarkup.countdown}`,
+                      position: 'insideBottomLeft',
+                      fill: SIMULATION_COLOR,
+                      fontSize: 10
+                    }}
+                  />
+                )}
+              </>
+            )}
+            {measure && (
+              <Customized component={<MeasureLayer measure={measure} intervalMs={intervalMs} />} />
+            )}
+            {(drawings.length > 0 || draftDrawing) && (
+              <Customized
+                component={
+                  <DrawingLayer
+                    drawings={draftDrawing ? [...drawings, draftDrawing] : drawings}
+                    selectedId={selectedDrawingId}
+                    isEditable={isDrawingEditable}
+                    onSelect={setSelectedDrawingId}
+                    clipId="clipDrawings"
+                  />
+                }
+              />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
+
+        {/* Older history being fetched */}
+        {isLoadingOlder && (
+            <div className="absolute left-12 top-1/2 -translate-y-1/2 z-10 flex items-center gap-2 px-2 py-1 rounded-md bg-slate-900/80 border border-slate-800 text-[11px] text-slate-400 pointer-events-none">
+                <div className="w-3 h-3 border-2 border-t-transparent rounded-full animate-spin" style={{ borderColor: color, borderTopColor: 'transparent' }}></div>
+                История...
+            </div>
+        )}
+
+        {/* Drawing & Measure Tools */}
+        {!isWidget && (
+            <div
+                className="absolute top-2 left-2 z-20 flex flex-col gap-0.5 p-0.5 rounded-lg bg-slate-900/80 border border-slate-800"
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={() => { setIsMeasureMode(!isMeasureMode); setDrawingTool(null); }}
+                    className={`p-1.5 rounded-md transition-all ${isMeasureMode ? 'bg-slate-700/80' : 'hover:bg-slate-800/50'}`}
+                    style={{ color: isMeasureMode ? color : textColor }}
+                    title="Линейка (или Shift + перетаскивание)"
+                >
+                    <Ruler size={14} />
+                </button>
+                {onDrawingsChange && Object.values(DrawingType).map(type => {
+                    const Icon = DRAWING_ICONS[type];
+                    return (
+                    <button
+                        key={type}
+                        onClick={() => { setDrawingTool(drawingTool === type ? null : type); setIsMeasureMode(false); }}
+                        className={`p-1.5 rounded-md transition-all ${drawingTool === type ? 'bg-slate-700/80' : 'hover:bg-slate-800/50'}`}
+                        style={{ color: drawingTool === type ? color : textColor }}
+                        title={DRAWINGS[type].label}
+                    >
+                        <Icon size={14} />
+                    </button>
+                    );
+                })}
+                {onDrawingsChange && attachSimulationId && (
+                    <button
+                        onClick={() => setAttachDrawings(!attachDrawings)}
+                        className={`p-1.5 rounded-md transition-all ${attachDrawings ? 'bg-slate-700/80' : 'hover:bg-slate-800/50'}`}
+                        style={{ color: attachDrawings ? color : textColor }}
+                        title={attachDrawings ? 'Новые рисунки видны зрителям симуляции' : 'Прикреплять новые рисунки к симуляции'}
+                    >
+                        <Link size={14} />
+                    </button>
+                )}
+                {onDrawingsChange && drawings.some(isDrawingEditable) && (
+                    <button
+                        onClick={deleteDrawings}
+                        className="p-1.5 rounded-md text-slate-500 hover:text-rose-400 transition-colors"
+                        title={selectedDrawing ? 'Удалить рисунок' : 'Удалить все рисунки'}
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                )}
+            </div>
+        )}
         
         {/* Current Price Line Indicator */}
         {chartYDomain && (
             <div 
                 className="absolute right-0 w-full pointer-events-none flex items-center justify-end pr-[60px]"
-                style={{ 
-                    top: `${ 
-                        containerRef.current
-                        ? Math.max(0, Math.min(containerRef.current.clientHeight - 30, (1 - (currentPrice - chartYDomain[0]) / (chartYDomain[1] - chartYDomain[0])) * (containerRef.current.clientHeight - 30))) 
-                        : 0
-                    }px`
-                }}
+                style={{ top: `${priceToY(currentPrice)}px` }}
             >
                 <div className="h-[1px] w-full border-t border-dashed opacity-40" style={{ borderColor: color }}></div>
             </div>
@@ -520,18 +1408,12 @@ export const TradingChart: React.FC<TradingChartProps> = ({
         {/* Custom Y-Axis Interaction Zone (Visual Only) */}
         {!isWidget && (
         <div 
-            className="absolute top-0 right-0 bottom-[30px] w-[60px] cursor-ns-resize hover:bg-white/5 transition-colors border-l border-slate-800/50"
+            className={`absolute top-0 right-0 w-[60px] cursor-ns-resize hover:bg-white/5 transition-colors border-l border-slate-800/50 ${lowerPaneCount > 0 ? 'bottom-0' : 'bottom-[30px]'}`}
             title="Тяните для масштабирования цены"
         >
             <div 
-                className="absolute right-0 w-[60px] flex items-center justify-center pointer-events-none z-10"
-                style={{ 
-                    top: `${ 
-                        chartYDomain && containerRef.current
-                        ? Math.max(0, Math.min(containerRef.current.clientHeight - 30, (1 - (currentPrice - chartYDomain[0]) / (chartYDomain[1] - chartYDomain[0])) * (containerRef.current.clientHeight - 30))) 
-                        : 0
-                    }px`
-                }}
+                className="absolute right-0 w-[60px] flex items-center justify-center pointer-events-none z-10 -translate-y-1/2"
+                style={{ top: `${priceToY(currentPrice)}px` }}
             >
                 <div className={`text-[11px] font-mono font-bold px-1.5 py-1 rounded-[2px] text-white shadow-lg flex items-center justify-center min-w-[50px]`} style={{ backgroundColor: color }}>
                     {currentPrice.toFixed(2)}
@@ -543,14 +1425,8 @@ export const TradingChart: React.FC<TradingChartProps> = ({
         {/* Widget Mode Simple Label */}
         {isWidget && (
             <div 
-                className="absolute right-0 w-[60px] flex items-center justify-center pointer-events-none z-10"
-                style={{ 
-                    top: `${ 
-                        chartYDomain && containerRef.current
-                        ? Math.max(0, Math.min(containerRef.current.clientHeight - 30, (1 - (currentPrice - chartYDomain[0]) / (chartYDomain[1] - chartYDomain[0])) * (containerRef.current.clientHeight - 30))) 
-                        : 0
-                    }px`
-                }}
+                className="absolute right-0 w-[60px] flex items-center justify-center pointer-events-none z-10 -translate-y-1/2"
+                style={{ top: `${priceToY(currentPrice)}px` }}
             >
                  <div 
                     className="text-[10px] font-mono font-bold px-1 py-0.5 rounded text-white shadow-sm"
@@ -570,8 +1446,133 @@ export const TradingChart: React.FC<TradingChartProps> = ({
                 <ChevronsRight className="text-emerald-500" size={20} style={{ color }} />
             </div>
         )}
+      </div>
+
+      {/* Volume Pane: same time axis and viewport as the price pane */}
+      {showVolume && (
+      <div
+        className="w-full shrink-0 border-t border-slate-800/60"
+        style={{ height: VOLUME_PANE_HEIGHT + (paneIndicators.length === 0 ? TIME_AXIS_HEIGHT : 0) }}
+      >
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={volumeCandles} margin={{ top: 4, right: 0, left: 0, bottom: 0 }}>
+            <XAxis {...xAxisProps} hide={paneIndicators.length > 0} />
+            <YAxis
+              type="number"
+              domain={[0, maxVolume * 1.1]}
+              tickFormatter={formatVolume}
+              orientation="right"
+              tick={{ fill: textColor, fontSize: 10, fontFamily: 'monospace', opacity: 0.5 }}
+              tickCount={3}
+              width={60}
+              allowDataOverflow={true}
+              tickLine={false}
+              axisLine={false}
+              tickMargin={10}
+            />
+            <Customized
+              component={
+                <HistogramLayer
+                  bars={volumeCandles.map(c => ({ time: c.time, value: c.volume, color: c.close >= c.open ? UP_COLOR : DOWN_COLOR }))}
+                  intervalMs={intervalMs}
+                  clipId="clipVolume"
+                />
+              }
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      )}
+
+      {/* Indicator Panes (RSI, MACD) */}
+      {paneIndicators.map((indicator, paneIndex) => {
+        const isLowest = paneIndex === paneIndicators.length - 1;
+        const isRsi = indicator.type === IndicatorType.RSI;
+        return (
+        <div
+          key={indicator.id}
+          className="w-full shrink-0 relative border-t border-slate-800/60"
+          style={{ height: INDICATOR_PANE_HEIGHT + (isLowest ? TIME_AXIS_HEIGHT : 0) }}
+        >
+          <span className="absolute top-1 left-2 z-10 text-[10px] font-mono pointer-events-none" style={{ color: indicator.color }}>
+            {INDICATORS[indicator.type].label} {resolveIndicatorParams(indicator).join(' ')}
+          </span>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={indicatorRows} margin={{ top: 4, right: 0, left: 0, bottom: 0 }}>
+              <XAxis {...xAxisProps} hide={!isLowest} />
+              <YAxis
+                type="number"
+                domain={isRsi ? [0, 100] : ['auto', 'auto']}
+                tickFormatter={(val) => isRsi ? val.toFixed(0) : val.toPrecision(3)}
+                orientation="right"
+                tick={{ fill: textColor, fontSize: 10, fontFamily: 'monospace', opacity: 0.5 }}
+                ticks={isRsi ? [30, 70] : undefined}
+                tickCount={3}
+                width={60}
+                allowDataOverflow={true}
+                tickLine={false}
+                axisLine={false}
+                tickMargin={10}
+              />
+              {isRsi ? (
+                <>
+                  <ReferenceLine y={70} stroke={textColor} strokeDasharray="3 3" opacity={0.3} />
+                  <ReferenceLine y={30} stroke={textColor} strokeDasharray="3 3" opacity={0.3} />
+                </>
+              ) : (
+                <>
+                  <ReferenceLine y={0} stroke={textColor} opacity={0.2} />
+                  <Customized
+                    component={
+                      <HistogramLayer
+                        bars={indicatorRows.flatMap(row => {
+                          const value = row[indicatorKey(indicator, 2)];
+                          return value == null ? [] : [{
+                            time: (row.time as number) - intervalMs / 2,
+                            value,
+                            color: value >= 0 ? UP_COLOR : DOWN_COLOR
+                          }];
+                        })}
+                        intervalMs={intervalMs}
+                        clipId={`clip-${indicator.id}`}
+                      />
+                    }
+                  />
+                  <Line
+                    dataKey={indicatorKey(indicator, 1)}
+                    stroke={MACD_SIGNAL_COLOR}
+                    strokeWidth={1.2}
+                    dot={false}
+                    activeDot={false}
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
+              <Line
+                dataKey={indicatorKey(indicator, 0)}
+                stroke={indicator.color}
+                strokeWidth={1.2}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        );
+      })}
 
+      {!isWidget && (
+        <Crosshair
+          register={(setPosition) => { setCrosshair.current = setPosition; }}
+          containerRef={containerRef}
+          toTime={clientToTime}
+          toPrice={clientToPrice}
+          formatTime={formatCrosshairTime}
+          textColor={textColor}
+        />
+      )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
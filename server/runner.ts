@@ -0,0 +1,386 @@
+/**
+ * Headless simulation runner.
+ *
+ * Claims active rows of `simulations` (see claim_simulations), generates their
+ * ticks with the same engine as the browser and writes `simulation_points` and
+ * `tickers`, so a simulation keeps going when its controller tab closes or
+ * sleeps. Commands issued by the controller (pause, extend, stop, ...) are
+ * plain row updates and get picked up on the next claim. When the path is over
+ * the runner also walks the price back to the market (see startRevert).
+ *
+ *   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... npm run runner
+ */
+import { readFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import ws from 'ws';
+import { createClient } from '@supabase/supabase-js';
+import type { WebSocketLikeConstructor } from '@supabase/realtime-js';
+import { CorrelatedFollower, DataPoint, MarketProviderId, SimulationConfig, TriggerType } from '../types';
+import { COINS } from '../services/coins';
+import { isMarketProviderId, marketProviders } from '../services/marketProviders';
+import {
+  createFollowerEngine,
+  createRevertEngine,
+  createSimulationEngine,
+  FollowerEngine,
+  resolveBaseVolume,
+  resolveRevertSettings,
+  RevertEngine,
+  seedFromString,
+  SimulationEngine,
+  TICK_MS
+} from '../services/simulationEngine';
+import {
+  CLAIM_STALE_MS,
+  pointFromRow,
+  pointToRow,
+  simulationFromRow,
+  SimulationPointColumns,
+  SimulationRow,
+  simulationUpdateRow
+} from '../services/simulationRows';
+import { isTriggerMet, startRevert, startScheduledSimulation } from '../services/simulationCommands';
+
+const SUPABASE_URL = process.env.SUPABASE_URL ?? 'http://127.0.0.1:54321';
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.SUPABASE_ANON_KEY ?? '';
+const RUNNER_ID = process.env.RUNNER_ID ?? `runner:${hostname()}:${process.pid}`;
+
+/** Claims double as heartbeats and as the way commands reach the runner */
+const CLAIM_INTERVAL_MS = 2000;
+const PRICE_REFRESH_MS = 5000;
+
+const MARKET_FIXTURE = process.env.MARKET_FIXTURE;
+
+marketProviders.configure({
+  provider: isMarketProviderId(process.env.MARKET_PROVIDER) ? process.env.MARKET_PROVIDER : MarketProviderId.BINANCE,
+  fileUrl: process.env.MARKET_FILE_URL,
+  // A fixture on disk for MARKET_PROVIDER=replay
+  fixture: MARKET_FIXTURE && (async () => JSON.parse(await readFile(MARKET_FIXTURE, 'utf8'))),
+  replaySpeed: Number(process.env.MARKET_REPLAY_SPEED) || 1
+});
+
+if (!SUPABASE_KEY) {
+  console.error('Set SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY)');
+  process.exit(1);
+}
+
+// Node 20 has no global WebSocket, realtime needs it even when unused. ws types its
+// constructor with overloads (one takes a null address), which the realtime type does not model
+const db = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false },
+  realtime: { transport: ws as unknown as WebSocketLikeConstructor }
+});
+
+interface RunningSimulation {
+  config: SimulationConfig;
+  engine?: SimulationEngine; // Missing while pending, or when claimed mid-revert
+  followers: Record<string, FollowerEngine>;
+  // Latest follower points, where their revert starts from
+  followerPoints: Record<string, DataPoint>;
+  reverts: Record<string, RevertEngine>;
+}
+
+const running = new Map<string, RunningSimulation>();
+const realPrices: Record<string, number> = {};
+let lastPriceRefresh = 0;
+
+const symbolOf = (coinId: string) => COINS.find(c => c.id === coinId)?.symbol ?? coinId.toUpperCase();
+
+const log = (message: string, config?: SimulationConfig) =>
+  console.log(`[${new Date().toISOString()}] ${config ? `${symbolOf(config.coinId)} ${config.id}: ` : ''}${message}`);
+
+// The same source as the browser's default; a coin's own provider still wins
+const fetchRealPrice = async (coinId: string): Promise<number | null> => {
+  const coin = COINS.find(c => c.id === coinId);
+  if (!coin) return null;
+  try {
+    return await marketProviders.forCoin(coin).getPrice(coin);
+  } catch {
+    return null;
+  }
+};
+
+// Price viewers currently see: the public ticker, else the real market
+const currentPrice = async (coinId: string): Promise<number | null> => {
+  const { data } = await db.from('tickers').select('price').eq('symbol', symbolOf(coinId)).maybeSingle();
+  return (data && Number(data.price)) || realPrices[coinId] || await fetchRealPrice(coinId);
+};
+
+const upsertTicker = (coinId: string, price: number, isSimulation: boolean) =>
+  db.from('tickers').upsert({
+    symbol: symbolOf(coinId),
+    price,
+    is_simulation: isSimulation,
+    updated_at: new Date().toISOString()
+  }).then(({ error }) => {
+    if (error) console.error('Error updating ticker', error);
+  });
+
+const savePoints = (config: SimulationConfig, points: DataPoint[]) =>
+  db.from('simulation_points').insert(points.map(point => pointToRow(config.id, point))).then(({ error }) => {
+    if (error) console.error('Error saving points', error);
+  });
+
+const lastStoredPoint = async (config: SimulationConfig): Promise<DataPoint | undefined> => {
+  const { data } = await db
+    .from('simulation_points')
+    .select('time, price, open, high, low, volume, is_simulation')
+    .eq('simulation_id', config.id)
+    .order('time', { ascending: false })
+    .limit(1)
+    .maybeSingle<SimulationPointColumns>();
+  return data ? pointFromRow(data) : undefined;
+};
+
+// Continue from the last stored point so a takeover does not jump
+const createEngine = async (config: SimulationConfig) =>
+  createSimulationEngine(config, { from: await lastStoredPoint(config) });
+
+const claim = async () => {
+  const { data, error } = await db.rpc('claim_simulations', {
+    p_holder: RUNNER_ID,
+    p_stale_ms: CLAIM_STALE_MS
+  });
+  if (error) {
+    console.error('Failed to claim simulations', error);
+    return;
+  }
+
+  const claimed: SimulationConfig[] = (data ?? []).map((row: SimulationRow) => simulationFromRow(row));
+  const claimedIds = new Set(claimed.map(c => c.id));
+
+  // Stopped by the controller, or taken over by someone else
+  running.forEach((sim, id) => {
+    if (claimedIds.has(id)) return;
+    running.delete(id);
+    log('released', sim.config);
+  });
+
+  for (const config of claimed) {
+    const sim = running.get(config.id);
+    if (sim) {
+      sim.config = config;
+      sim.engine?.update(config);
+      continue;
+    }
+    const reverting = config.revertStartedAt != null;
+    running.set(config.id, {
+      config,
+      engine: config.pending || reverting ? undefined : await createEngine(config),
+      followers: {},
+      followerPoints: {},
+      reverts: {}
+    });
+    log(config.pending ? 'claimed (pending)' : reverting ? 'claimed (reverting)' : 'claimed', config);
+  }
+};
+
+const refreshRealPrices = async () => {
+  const coinIds = new Set<string>();
+  running.forEach(({ config }) => {
+    coinIds.add(config.coinId);
+    config.followers?.forEach(f => coinIds.add(f.coinId));
+  });
+  await Promise.all(Array.from(coinIds).map(async id => {
+    const price = await fetchRealPrice(id);
+    if (price) realPrices[id] = price;
+  }));
+};
+
+const activate = async (sim: RunningSimulation, now: number) => {
+  const startPrice = await currentPrice(sim.config.coinId);
+  if (!startPrice) return;
+
+  const followers: CorrelatedFollower[] = [];
+  for (const f of sim.config.followers ?? []) {
+    const basePrice = await currentPrice(f.coinId);
+    if (basePrice) followers.push({ ...f, basePrice });
+  }
+
+  const config: SimulationConfig = {
+    ...startScheduledSimulation(sim.config, now, startPrice),
+    followers: followers.length > 0 ? followers : undefined
+  };
+  const { error } = await db.from('simulations').update(simulationUpdateRow(config)).eq('id', config.id);
+  if (error) {
+    console.error('Failed to start scheduled simulation', error);
+    return;
+  }
+
+  sim.config = config;
+  sim.engine = createSimulationEngine(config);
+  log(`triggered (${config.trigger?.type ?? TriggerType.TIME})`, config);
+};
+
+const finish = async (sim: RunningSimulation) => {
+  running.delete(sim.config.id);
+  await db
+    .from('simulations')
+    .update({ is_active: false, claimed_by: null, heartbeat_at: null })
+    .eq('id', sim.config.id);
+
+  // Hand the public tickers back to the real market
+  [sim.config.coinId, ...(sim.config.followers ?? []).map(f => f.coinId)].forEach(coinId => {
+    if (realPrices[coinId]) upsertTicker(coinId, realPrices[coinId], false);
+  });
+  log('finished', sim.config);
+};
+
+// Path over: hand the price back to the market, or finish right away without one
+const beginRevert = async (sim: RunningSimulation, now: number) => {
+  const livePrice = realPrices[sim.config.coinId] || await fetchRealPrice(sim.config.coinId);
+  if (!livePrice || !sim.engine) {
+    await finish(sim);
+    return;
+  }
+
+  const config = startRevert(sim.config, now, sim.engine.last.price, livePrice);
+  const { error } = await db.from('simulations').update(simulationUpdateRow(config)).eq('id', config.id);
+  if (error) {
+    console.error('Failed to start revert', error);
+    return;
+  }
+  sim.config = config;
+  log(`reverting over ${Math.round((config.revert?.durationMs ?? 0) / 1000)}s`, config);
+};
+
+// Followers with a price to start from, like resolveFollowers keeps in the browser
+const followersOf = (config: SimulationConfig): CorrelatedFollower[] =>
+  (config.followers ?? []).filter(f => (f.basePrice ?? 0) > 0);
+
+// Where the revert of `coinId` starts: its latest point here, else what was stored / is shown
+const revertFrom = async (sim: RunningSimulation, coinId: string, now: number): Promise<DataPoint | undefined> => {
+  if (coinId === sim.config.coinId) {
+    if (sim.engine) return sim.engine.last;
+    const stored = await lastStoredPoint(sim.config);
+    if (stored) return stored;
+  } else if (sim.followerPoints[coinId]) {
+    return sim.followerPoints[coinId];
+  }
+  const price = await currentPrice(coinId);
+  return price ? { time: now, price, isSimulation: false } : undefined;
+};
+
+const tickRevert = async (sim: RunningSimulation, now: number) => {
+  const { config } = sim;
+  const startedAt = config.revertStartedAt;
+  if (startedAt == null) return;
+
+  for (const coinId of [config.coinId, ...followersOf(config).map(f => f.coinId)]) {
+    const livePrice = realPrices[coinId];
+    if (!livePrice) continue;
+    if (!sim.reverts[coinId]) {
+      const from = await revertFrom(sim, coinId, now);
+      if (!from) continue;
+      const seed = (config.seed ?? seedFromString(config.id)) ^ seedFromString(coinId);
+      // Followers trade the leader's turnover, converted into their own coin
+      const baseVolume = resolveBaseVolume(config) * config.startPrice / from.price;
+      sim.reverts[coinId] = createRevertEngine(
+        resolveRevertSettings(config, from.price, livePrice), startedAt, from, seed >>> 0, baseVolume
+      );
+    }
+
+    const points = sim.reverts[coinId].catchUp(now, livePrice);
+    if (points.length === 0) continue;
+    if (coinId === config.coinId) savePoints(config, points);
+    upsertTicker(coinId, points[points.length - 1].price, true);
+  }
+
+  if (sim.reverts[config.coinId]?.finished) await finish(sim);
+};
+
+const tick = async () => {
+  const now = Date.now();
+  if (now - lastPriceRefresh >= PRICE_REFRESH_MS) {
+    lastPriceRefresh = now;
+    await refreshRealPrices();
+  }
+
+  const busyCoins = new Set(Array.from(running.values()).filter(s => !s.config.pending).map(s => s.config.coinId));
+
+  for (const sim of Array.from(running.values())) {
+    const { config } = sim;
+
+    // A busy coin waits for its current run, like in the browser
+    if (config.pending) {
+      if (busyCoins.has(config.coinId) || !isTriggerMet(config, now, realPrices[config.coinId])) continue;
+      busyCoins.add(config.coinId);
+      await activate(sim, now);
+      continue;
+    }
+
+    if (config.revertStartedAt != null) {
+      await tickRevert(sim, now);
+      continue;
+    }
+    if (!sim.engine) continue;
+
+    // Timers lag under load too, so fill any gap at the regular spacing
+    const points = sim.engine.catchUp(now);
+    if (points.length > 0) {
+      const last = points[points.length - 1];
+      savePoints(config, points);
+      upsertTicker(config.coinId, last.price, true);
+
+      followersOf(config).forEach(follower => {
+        if (!sim.followers[follower.coinId]) {
+          sim.followers[follower.coinId] = createFollowerEngine(config, follower, {
+            from: { time: points[0].time - TICK_MS, price: follower.basePrice! }
+          });
+        }
+        const followerEngine = sim.followers[follower.coinId];
+        const derived = points.map(point => followerEngine.step(point));
+        sim.followerPoints[follower.coinId] = derived[derived.length - 1];
+        upsertTicker(follower.coinId, derived[derived.length - 1].price, true);
+      });
+    }
+
+    if (sim.engine.finished) await beginRevert(sim, now);
+  }
+};
+
+/**
+ * Claims and ticks take turns. A claim applies the rows it read to the running
+ * simulations; were a tick to persist a newer state (trigger, revert start)
+ * between that read and the apply, the claim would put the stale config back.
+ */
+let turn: Promise<void> = Promise.resolve();
+const exclusive = (task: () => Promise<void>) => (): Promise<void> => {
+  const run = turn.then(task);
+  turn = run.catch(() => {});
+  return run;
+};
+
+// Overlapping runs would emit duplicate points, so each loop skips while busy
+const every = (ms: number, task: () => Promise<void>) => {
+  let busy = false;
+  return setInterval(async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      await task();
+    } catch (e) {
+      console.error(e);
+    } finally {
+      busy = false;
+    }
+  }, ms);
+};
+
+const shutdown = async () => {
+  clearInterval(claimLoop);
+  clearInterval(tickLoop);
+  // Let a controller tab or another runner take over right away
+  await db
+    .from('simulations')
+    .update({ claimed_by: null, heartbeat_at: null })
+    .eq('claimed_by', RUNNER_ID);
+  log('stopped');
+  process.exit(0);
+};
+
+log(`runner ${RUNNER_ID} on ${SUPABASE_URL}`);
+const claimLoop = every(CLAIM_INTERVAL_MS, exclusive(claim));
+const tickLoop = every(TICK_MS, exclusive(tick));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,73 +1,100 @@
-import { DataPoint, BinanceKline } from '../types';
+import { Coin, DataPoint, KlineInterval, MarketProviderId, TickerStats } from '../types';
 import { supabase } from './supabaseClient';
+import { pointFromRow } from './simulationRows';
+import { isRateLimited } from './marketData';
+import { marketProviders } from './marketProviders';
 
-const BASE_URLS = [
-  'https://data-api.binance.vision/api/v3', // Try public vision API first (often better CORS)
-  'https://api.binance.com/api/v3'
-];
-
-/**
- * Helper to fetch data with failover support (Primary -> Secondary -> Proxy)
- */
-async function fetchWithFailover(endpoint: string, queryString: string): Promise<any> {
-    const targets = [
-        ...BASE_URLS.map(base => `${base}${endpoint}?${queryString}`),
-        `https://corsproxy.io/?${encodeURIComponent(`https://api.binance.com/api/v3${endpoint}?${queryString}`)}`
-    ];
-
-    for (const url of targets) {
-        try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 4000); // 4s timeout per request
-            
-            const response = await fetch(url, { signal: controller.signal });
-            clearTimeout(timeoutId);
-
-            if (response.ok) {
-                return await response.json();
-            }
-        } catch (e) {
-            // Silently continue to next endpoint
-        }
-    }
-    throw new Error('All API endpoints failed');
-}
+const groupByProvider = (coins: Coin[]): Map<MarketProviderId, Coin[]> => {
+  const groups = new Map<MarketProviderId, Coin[]>();
+  coins.forEach(coin => {
+    const id = marketProviders.forCoin(coin).id;
+    groups.set(id, [...(groups.get(id) ?? []), coin]);
+  });
+  return groups;
+};
 
 export const api = {
   /**
-   * Fetch historical klines (candles) for a symbol
+   * Fetch historical klines (candles) for a coin from its market data
+   * provider, the latest ones or the page ending at `endTime` (inclusive)
+   * when scrolling back. A rate-limited source is thrown (see isRateLimited),
+   * so the caller keeps what it shows and retries; other failures give none.
    */
-  getHistory: async (symbol: string, limit: number = 1000): Promise<DataPoint[]> => {
+  getHistory: async (
+    coin: Coin,
+    limit: number = 1000,
+    options: { interval?: KlineInterval; endTime?: number } = {}
+  ): Promise<DataPoint[]> => {
     try {
-      const pair = `${symbol.toUpperCase()}USDT`;
-      // Use 1m interval for high granularity
-      const data: BinanceKline[] = await fetchWithFailover('/klines', `symbol=${pair}&interval=1m&limit=${limit}`);
-
-      return data.map((kline: any) => ({
-        time: kline[0],
-        price: parseFloat(kline[4]), // Close price
-        isSimulation: false
-      }));
+      const { interval = '1m', endTime } = options;
+      return await marketProviders.forCoin(coin).getHistory(coin, { interval, limit, endTime });
     } catch (error) {
+      if (isRateLimited(error)) throw error;
       console.warn('Failed to fetch history (using mock data):', error);
       return [];
     }
   },
 
   /**
-   * Fetch current price for a symbol
+   * Fetch current price for a coin
    */
-  getPrice: async (symbol: string): Promise<number | null> => {
+  getPrice: async (coin: Coin): Promise<number | null> => {
     try {
-      const pair = `${symbol.toUpperCase()}USDT`;
-      const data = await fetchWithFailover('/ticker/price', `symbol=${pair}`);
-      return parseFloat(data.price);
+      return await marketProviders.forCoin(coin).getPrice(coin);
     } catch (error) {
       // Suppress logging to avoid console spam during connection issues
       return null;
     }
   },
 
+  /**
+   * Fetch current prices of many coins, by coin id: one request per provider
+   * that batches, one per coin for the rest. Failed coins are left out.
+   */
+  getPrices: async (coins: Coin[]): Promise<Record<string, number>> => {
+    const prices: Record<string, number> = {};
+    await Promise.all([...groupByProvider(coins)].map(async ([id, group]) => {
+      const provider = marketProviders.get(id);
+      const batch = provider.getPrices;
+      if (batch) {
+        try {
+          const bySymbol = await batch(group);
+          group.forEach(coin => {
+            if (bySymbol[coin.symbol]) prices[coin.id] = bySymbol[coin.symbol];
+          });
+        } catch (error) {
+          // Suppress logging to avoid console spam during connection issues
+        }
+        return;
+      }
+      await Promise.all(group.map(async coin => {
+        const price = await api.getPrice(coin);
+        if (price) prices[coin.id] = price;
+      }));
+    }));
+    return prices;
+  },
+
+  /**
+   * Fetch 24h tickers of many coins, by coin id; coins whose provider has none are left out
+   */
+  get24hStats: async (coins: Coin[]): Promise<Record<string, TickerStats>> => {
+    const stats: Record<string, TickerStats> = {};
+    await Promise.all([...groupByProvider(coins)].map(async ([id, group]) => {
+      const batch = marketProviders.get(id).get24hStats;
+      if (!batch) return;
+      try {
+        const bySymbol = await batch(group);
+        group.forEach(coin => {
+          if (bySymbol[coin.symbol]) stats[coin.id] = bySymbol[coin.symbol];
+        });
+      } catch (error) {
+        // Suppress logging to avoid console spam during connection issues
+      }
+    }));
+    return stats;
+  },
+
   /**
    * Fetch stored simulation points from Supabase
    */
@@ -75,17 +102,13 @@ export const api = {
     try {
       const { data, error } = await supabase
         .from('simulation_points')
-        .select('time, price, is_simulation')
+        .select('time, price, open, high, low, volume, is_simulation')
         .eq('simulation_id', simulationId)
         .order('time', { ascending: true });
 
       if (error) throw error;
       
-      return data ? data.map(d => ({
-        time: Number(d.time),
-        price: Number(d.price),
-        isSimulation: d.is_simulation
-      })) : [];
+      return data ? data.map(pointFromRow) : [];
     } catch (error) {
       console.error('Failed to fetch simulation points:', error);
       return [];
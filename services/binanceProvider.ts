@@ -0,0 +1,135 @@
+import { BinanceKline, Coin, DataPoint, MarketProviderId, TickerStats } from '../types';
+import { createRequestBudget, fetchWithFailover, HistoryRequest, httpStatusOf, MarketDataProvider } from './marketData';
+import { createMarketStream, DEFAULT_STREAM_URL } from './marketStream';
+
+const BASE_URLS = [
+  'https://data-api.binance.vision/api/v3', // Try public vision API first (often better CORS)
+  'https://api.binance.com/api/v3'
+];
+
+/**
+ * Binance limits request weight per IP (6000 a minute); this client keeps to
+ * a fraction of it, as other tabs and the runner may share the address
+ */
+const WEIGHT_PER_MINUTE = 1200;
+
+const WEIGHTS = {
+  klines: 2,
+  price: 2,
+  prices: 4,
+  stats: (symbols: number) => symbols <= 20 ? 2 : symbols <= 100 ? 40 : 80
+};
+
+// Shared by every provider instance, the limit is per address
+const budget = createRequestBudget(WEIGHT_PER_MINUTE);
+
+// Pairs Binance answered "invalid symbol" for; left out of later requests
+const unlisted = new Set<string>();
+
+const targets = (endpoint: string, queryString: string) => [
+  ...BASE_URLS.map(base => `${base}${endpoint}?${queryString}`),
+  `https://corsproxy.io/?${encodeURIComponent(`https://api.binance.com/api/v3${endpoint}?${queryString}`)}`
+];
+
+const request = async (endpoint: string, queryString: string, weight: number): Promise<any> => {
+  if (!budget.take(weight)) {
+    throw Object.assign(new Error('Binance request weight budget spent, try again later'), { status: 429, retryAfterMs: budget.retryIn(weight) });
+  }
+  return fetchWithFailover(targets(endpoint, queryString), { onRateLimit: budget.pauseFor });
+};
+
+const pair = (coin: Coin) => `${coin.symbol.toUpperCase()}USDT`;
+
+const listedPair = (coin: Coin) => {
+  const name = pair(coin);
+  if (unlisted.has(name)) throw new Error(`${name} is not listed`);
+  return name;
+};
+
+/**
+ * One multi-symbol request for the pairs. Binance rejects the whole batch for
+ * a single unknown symbol, so a rejected batch is halved until the culprits
+ * are found; they are skipped from then on.
+ */
+const fetchBatch = async (pairs: string[], fetchPairs: (pairs: string[]) => Promise<any[]>): Promise<any[]> => {
+  const listed = pairs.filter(p => !unlisted.has(p));
+  if (listed.length === 0) return [];
+  try {
+    return await fetchPairs(listed);
+  } catch (error) {
+    if (httpStatusOf(error) !== 400) throw error;
+    if (listed.length === 1) {
+      unlisted.add(listed[0]);
+      return [];
+    }
+    const middle = listed.length >> 1;
+    return [...await fetchBatch(listed.slice(0, middle), fetchPairs), ...await fetchBatch(listed.slice(middle), fetchPairs)];
+  }
+};
+
+// Results by pair -> by coin symbol
+const bySymbol = <T>(coins: Coin[], entries: { symbol: string }[], value: (entry: any) => T | null): Record<string, T> => {
+  const result: Record<string, T> = {};
+  entries.forEach(entry => {
+    const coin = coins.find(c => pair(c) === entry.symbol);
+    const parsed = value(entry);
+    if (coin && parsed != null) result[coin.symbol] = parsed;
+  });
+  return result;
+};
+
+const symbolsParam = (pairs: string[]) => `symbols=${encodeURIComponent(JSON.stringify(pairs))}`;
+
+/** Spot klines against USDT; live prices from the combined WebSocket stream at `streamUrl` */
+export const createBinanceProvider = (streamUrl = DEFAULT_STREAM_URL): MarketDataProvider => ({
+  id: MarketProviderId.BINANCE,
+  label: 'Binance',
+  pair,
+
+  getHistory: async (coin: Coin, { interval, limit, endTime }: HistoryRequest): Promise<DataPoint[]> => {
+    const range = endTime != null ? `&endTime=${Math.floor(endTime)}` : '';
+    const data: BinanceKline[] = await request(
+      '/klines',
+      `symbol=${listedPair(coin)}&interval=${interval}&limit=${Math.min(limit, 1000)}${range}`,
+      WEIGHTS.klines
+    );
+
+    return data.map(kline => ({
+      time: kline[0],
+      price: parseFloat(kline[4]), // Close price
+      open: parseFloat(kline[1]),
+      high: parseFloat(kline[2]),
+      low: parseFloat(kline[3]),
+      volume: parseFloat(kline[5]),
+      isSimulation: false
+    }));
+  },
+
+  getPrice: async (coin: Coin): Promise<number | null> => {
+    const data = await request('/ticker/price', `symbol=${listedPair(coin)}`, WEIGHTS.price);
+    return parseFloat(data.price) || null;
+  },
+
+  getPrices: async (coins: Coin[]): Promise<Record<string, number>> => {
+    const data = await fetchBatch(coins.map(pair), pairs => request('/ticker/price', symbolsParam(pairs), WEIGHTS.prices));
+    return bySymbol(coins, data, entry => parseFloat(entry.price) || null);
+  },
+
+  get24hStats: async (coins: Coin[]): Promise<Record<string, TickerStats>> => {
+    const data = await fetchBatch(coins.map(pair), pairs => request('/ticker/24hr', symbolsParam(pairs), WEIGHTS.stats(pairs.length)));
+    return bySymbol(coins, data, (entry): TickerStats | null => {
+      const price = parseFloat(entry.lastPrice);
+      if (!(price > 0)) return null;
+      return {
+        price,
+        changePercent: parseFloat(entry.priceChangePercent),
+        high: parseFloat(entry.highPrice),
+        low: parseFloat(entry.lowPrice),
+        volume: parseFloat(entry.volume),
+        quoteVolume: parseFloat(entry.quoteVolume)
+      };
+    });
+  },
+
+  createStream: handlers => createMarketStream(handlers, { url: streamUrl })
+});
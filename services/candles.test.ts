@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TimeFrame } from '../types';
+import { HISTORY_RESOLUTIONS, initialTimeFrame, mergeCandles } from './candles';
+
+describe('initialTimeFrame', () => {
+  it('opens widgets on the last hour, with 1m history', () => {
+    const timeFrame = initialTimeFrame(new URLSearchParams('?mode=widget&coin=bitcoin'));
+    assert.equal(timeFrame, TimeFrame.H1);
+    assert.equal(HISTORY_RESOLUTIONS[timeFrame].interval, '1m');
+  });
+
+  it('opens the app on four hours', () => {
+    assert.equal(initialTimeFrame(new URLSearchParams('?coin=bitcoin')), TimeFrame.H4);
+  });
+});
+
+describe('mergeCandles', () => {
+  it('merges a run of candles into one spanning them', () => {
+    const candles = [
+      { time: 0, open: 10, high: 12, low: 9, close: 11, volume: 1, isSimulation: false },
+      { time: 60, open: 11, high: 15, low: 10, close: 14, volume: 2, isSimulation: true },
+      { time: 120, open: 14, high: 14, low: 8, close: 9, volume: 3, isSimulation: false }
+    ];
+    assert.deepEqual(mergeCandles(candles, 0, 3), { time: 0, open: 10, high: 15, low: 8, close: 9, volume: 6, isSimulation: true });
+    assert.deepEqual(mergeCandles(candles, 2, 3), candles[2]);
+    assert.equal(candles[0].volume, 1);
+  });
+});
@@ -0,0 +1,139 @@
+import { Candle, DataPoint, KlineInterval, TimeFrame } from '../types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/** Candle interval for each visible window, roughly 50-150 candles on screen */
+export const CANDLE_INTERVALS: Record<TimeFrame, number> = {
+  [TimeFrame.M1]: SECOND,
+  [TimeFrame.M5]: 5 * SECOND,
+  [TimeFrame.M15]: 15 * SECOND,
+  [TimeFrame.H1]: MINUTE,
+  [TimeFrame.H4]: 5 * MINUTE,
+  [TimeFrame.D1]: 15 * MINUTE,
+  [TimeFrame.D7]: HOUR
+};
+
+export const KLINE_INTERVAL_MS: Record<KlineInterval, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '1h': HOUR
+};
+
+/**
+ * Kline resolution fetched for each visible window: fine for narrow views,
+ * coarse for wide ones. The limit covers about three windows, older pages
+ * come from scroll-back at the same interval.
+ */
+export const HISTORY_RESOLUTIONS: Record<TimeFrame, { interval: KlineInterval; limit: number }> = {
+  [TimeFrame.M1]: { interval: '1m', limit: 60 },
+  [TimeFrame.M5]: { interval: '1m', limit: 60 },
+  [TimeFrame.M15]: { interval: '1m', limit: 100 },
+  [TimeFrame.H1]: { interval: '1m', limit: 240 },
+  [TimeFrame.H4]: { interval: '5m', limit: 150 },
+  [TimeFrame.D1]: { interval: '15m', limit: 300 },
+  [TimeFrame.D7]: { interval: '1h', limit: 500 }
+};
+
+/** Visible window a page opens with: embedded widgets show the last hour */
+export const initialTimeFrame = (params: URLSearchParams): TimeFrame =>
+  params.get('mode') === 'widget' ? TimeFrame.H1 : TimeFrame.H4;
+
+/** Klines that closed by `time`, e.g. the real history in front of a simulation */
+export const klinesBefore = (history: DataPoint[], time: number, intervalMs: number): DataPoint[] => {
+  const splitIndex = history.findIndex(p => p.time + intervalMs > time);
+  return splitIndex !== -1 ? history.slice(0, splitIndex) : history;
+};
+
+/**
+ * How to bring cached klines up to date: only the klines since the cache are
+ * fetched when they join up with it. A cache too old for that is dropped, the
+ * newest `limit` fetched and written over it, so no hole is left behind.
+ */
+export const historyRefresh = (cached: DataPoint[], limit: number, intervalMs: number, now: number) => {
+  const missing = cached.length > 0 ? Math.ceil((now - cached[cached.length - 1].time) / intervalMs) + 1 : Infinity;
+  const base = missing <= limit ? cached : [];
+  return {
+    base,
+    fetchLimit: base.length > 0 && base.length + missing >= limit ? missing : limit,
+    replaceCache: base.length === 0
+  };
+};
+
+/**
+ * Merge freshly fetched klines into a chart series. Klines at least as fine as
+ * the head replace the span they cover; coarser ones only extend the series
+ * further back, so the detail near the head and the live ticks after it stay.
+ */
+export const stitchHistory = (
+  existing: DataPoint[],
+  fetched: DataPoint[],
+  fetchedIntervalMs: number,
+  headIntervalMs: number
+): DataPoint[] => {
+  if (fetched.length === 0) return existing;
+  if (existing.length === 0) return fetched;
+  if (fetchedIntervalMs <= headIntervalMs) {
+    const start = fetched[0].time;
+    const end = fetched[fetched.length - 1].time + fetchedIntervalMs;
+    return [...existing.filter(p => p.time < start), ...fetched, ...existing.filter(p => p.time >= end)];
+  }
+  return [...fetched.filter(p => p.time < existing[0].time), ...existing];
+};
+
+export const candleStart = (time: number, intervalMs: number) => Math.floor(time / intervalMs) * intervalMs;
+
+/** Candle holding a single point; plain quotes have no OHLC and become a candle of one price */
+export const pointToCandle = (point: DataPoint, intervalMs: number): Candle => ({
+  time: candleStart(point.time, intervalMs),
+  open: point.open ?? point.price,
+  high: point.high ?? point.price,
+  low: point.low ?? point.price,
+  close: point.price,
+  volume: point.volume ?? 0,
+  isSimulation: !!point.isSimulation
+});
+
+/** Add a later point of the same interval to a (forming) candle, in place */
+export const mergePoint = (candle: Candle, point: DataPoint) => {
+  candle.high = Math.max(candle.high, point.high ?? point.price);
+  candle.low = Math.min(candle.low, point.low ?? point.price);
+  candle.close = point.price;
+  candle.volume += point.volume ?? 0;
+  candle.isSimulation = candle.isSimulation || !!point.isSimulation;
+};
+
+/** Candles `from` to `to` (exclusive) as one, e.g. all that share a pixel */
+export const mergeCandles = (candles: Candle[], from: number, to: number): Candle => {
+  const merged = { ...candles[from] };
+  for (let i = from + 1; i < to; i++) {
+    const candle = candles[i];
+    merged.high = Math.max(merged.high, candle.high);
+    merged.low = Math.min(merged.low, candle.low);
+    merged.close = candle.close;
+    merged.volume += candle.volume;
+    merged.isSimulation = merged.isSimulation || candle.isSimulation;
+  }
+  return merged;
+};
+
+/** Heikin-Ashi candles: averaged bodies that smooth out noise and show the trend */
+export const toHeikinAshi = (candles: Candle[]): Candle[] => {
+  const result: Candle[] = [];
+  candles.forEach((candle, i) => {
+    const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+    const open = i === 0
+      ? (candle.open + candle.close) / 2
+      : (result[i - 1].open + result[i - 1].close) / 2;
+    result.push({
+      ...candle,
+      open,
+      close,
+      high: Math.max(candle.high, open, close),
+      low: Math.min(candle.low, open, close)
+    });
+  });
+  return result;
+};
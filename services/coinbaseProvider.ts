@@ -0,0 +1,54 @@
+import { Coin, CoinbaseCandle, DataPoint, MarketProviderId } from '../types';
+import { KLINE_INTERVAL_MS } from './candles';
+import { fetchWithFailover, HistoryRequest, MarketDataProvider, pageOf, withCorsProxy } from './marketData';
+
+const BASE_URL = 'https://api.exchange.coinbase.com';
+
+/** Candles per request, the API maximum */
+const PAGE_SIZE = 300;
+
+/** Requests spent on one history call at most */
+const MAX_PAGES = 8;
+
+const pair = (coin: Coin) => `${coin.symbol.toUpperCase()}-USD`;
+
+const toPoint = ([time, low, high, open, close, volume]: CoinbaseCandle): DataPoint => ({
+  time: time * 1000,
+  price: close,
+  open,
+  high,
+  low,
+  volume,
+  isSimulation: false
+});
+
+/** Coinbase Exchange USD markets over REST; polled, there is no stream */
+export const createCoinbaseProvider = (): MarketDataProvider => ({
+  id: MarketProviderId.COINBASE,
+  label: 'Coinbase',
+  pair,
+
+  getHistory: async (coin: Coin, request: HistoryRequest): Promise<DataPoint[]> => {
+    const intervalMs = KLINE_INTERVAL_MS[request.interval];
+
+    // Pages walk back from the end of the range, newest first
+    const byTime = new Map<number, DataPoint>();
+    let end = request.endTime != null ? request.endTime + intervalMs : Date.now();
+    for (let page = 0; page < MAX_PAGES && byTime.size < request.limit; page++) {
+      const start = end - PAGE_SIZE * intervalMs;
+      const query = `granularity=${intervalMs / 1000}&start=${new Date(start).toISOString()}&end=${new Date(end).toISOString()}`;
+      const data: CoinbaseCandle[] = await fetchWithFailover(withCorsProxy(`${BASE_URL}/products/${pair(coin)}/candles?${query}`));
+      if (data.length === 0) break;
+      data.forEach(candle => byTime.set(candle[0] * 1000, toPoint(candle)));
+      end = start;
+    }
+
+    const points = [...byTime.values()].sort((a, b) => a.time - b.time);
+    return pageOf(points, request);
+  },
+
+  getPrice: async (coin: Coin): Promise<number | null> => {
+    const data = await fetchWithFailover(withCorsProxy(`${BASE_URL}/products/${pair(coin)}/ticker`));
+    return parseFloat(data.price) || null;
+  }
+});
@@ -0,0 +1,23 @@
+import { Coin } from '../types';
+
+// Coins offered in the UI, shared with the headless runner for ticker symbols
+export const COINS: Coin[] = [
+  { id: 'btc', symbol: 'BTC', name: 'Bitcoin', color: '#f59e0b', basePrice: 65000 },
+  { id: 'eth', symbol: 'ETH', name: 'Ethereum', color: '#6366f1', basePrice: 3400 },
+  { id: 'sol', symbol: 'SOL', name: 'Solana', color: '#14b8a6', basePrice: 145 },
+  { id: 'bnb', symbol: 'BNB', name: 'Binance Coin', color: '#eab308', basePrice: 590 },
+  { id: 'doge', symbol: 'DOGE', name: 'Dogecoin', color: '#fbbf24', basePrice: 0.16 },
+  { id: 'xrp', symbol: 'XRP', name: 'Ripple', color: '#3b82f6', basePrice: 0.60 },
+  { id: 'ada', symbol: 'ADA', name: 'Cardano', color: '#2563eb', basePrice: 0.45 },
+  { id: 'ton', symbol: 'TON', name: 'Toncoin', color: '#0098ea', basePrice: 7.2 },
+  { id: 'avax', symbol: 'AVAX', name: 'Avalanche', color: '#e84142', basePrice: 28 },
+  { id: 'shib', symbol: 'SHIB', name: 'Shiba Inu', color: '#fca5a5', basePrice: 0.000018 },
+  { id: 'dot', symbol: 'DOT', name: 'Polkadot', color: '#e6007a', basePrice: 6.5 },
+  { id: 'link', symbol: 'LINK', name: 'Chainlink', color: '#2a5ada', basePrice: 14 },
+  { id: 'matic', symbol: 'MATIC', name: 'Polygon', color: '#8247e5', basePrice: 0.55 },
+  { id: 'uni', symbol: 'UNI', name: 'Uniswap', color: '#ff007a', basePrice: 8 },
+  { id: 'ltc', symbol: 'LTC', name: 'Litecoin', color: '#345d9d', basePrice: 70 },
+  { id: 'near', symbol: 'NEAR', name: 'NEAR Protocol', color: '#000000', basePrice: 5.5 },
+  { id: 'atom', symbol: 'ATOM', name: 'Cosmos', color: '#2e3148', basePrice: 6.8 },
+  { id: 'pepe', symbol: 'PEPE', name: 'Pepe', color: '#4ade80', basePrice: 0.000008 },
+];
@@ -0,0 +1,33 @@
+import { ChartAnchor, Drawing, DrawingType } from '../types';
+
+export interface DrawingDefinition {
+  label: string;
+  /** Anchors placed by the user: one click, or a drag from the first to the second */
+  anchors: 1 | 2;
+}
+
+export const DRAWINGS: Record<DrawingType, DrawingDefinition> = {
+  [DrawingType.HORIZONTAL]: { label: 'Уровень', anchors: 1 },
+  [DrawingType.TREND]: { label: 'Тренд', anchors: 2 },
+  [DrawingType.RECTANGLE]: { label: 'Прямоугольник', anchors: 2 },
+  [DrawingType.FIBONACCI]: { label: 'Фибоначчи', anchors: 2 },
+  [DrawingType.TEXT]: { label: 'Заметка', anchors: 1 }
+};
+
+/** Retracement levels, 0 at the second anchor and 1 at the first */
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+export const DEFAULT_DRAWING_COLOR = '#38bdf8';
+
+/** Price of a retracement level between the anchors */
+export const fibPrice = (drawing: Drawing, level: number): number => {
+  const [from, to] = drawing.points;
+  return to.price + (from.price - to.price) * level;
+};
+
+export const createDrawing = (type: DrawingType, anchor: ChartAnchor, color = DEFAULT_DRAWING_COLOR): Drawing => ({
+  id: `${type}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  points: DRAWINGS[type].anchors === 2 ? [anchor, anchor] : [anchor],
+  color
+});
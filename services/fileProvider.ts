@@ -0,0 +1,104 @@
+import { Coin, DataPoint, MarketProviderId } from '../types';
+import { aggregateKlines, HistoryRequest, MarketDataProvider, pageOf } from './marketData';
+
+export const DEFAULT_FILE_URL = '/market-data/{symbol}.csv';
+
+const TIME_KEYS = ['time', 'timestamp', 'date', 'open_time'];
+const PRICE_KEYS = ['close', 'price'];
+
+// Unix seconds, unix milliseconds or anything Date.parse reads
+const parseTime = (value: unknown): number => {
+  const number = Number(value);
+  if (Number.isFinite(number)) return number < 1e12 ? number * 1000 : number;
+  return Date.parse(String(value));
+};
+
+const toPoint = (row: Record<string, unknown>): DataPoint | null => {
+  const timeKey = TIME_KEYS.find(k => row[k] != null);
+  const priceKey = PRICE_KEYS.find(k => row[k] != null);
+  if (!timeKey || !priceKey) return null;
+  const time = parseTime(row[timeKey]);
+  const price = Number(row[priceKey]);
+  if (!Number.isFinite(time) || !(price > 0)) return null;
+  const optional = (key: string) => row[key] != null && row[key] !== '' ? Number(row[key]) : undefined;
+  return {
+    time,
+    price,
+    open: optional('open'),
+    high: optional('high'),
+    low: optional('low'),
+    volume: optional('volume'),
+    isSimulation: false
+  };
+};
+
+const lowerKeys = (row: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), value]));
+
+/**
+ * Rows of a CSV with a header line (time plus close or price; open, high, low
+ * and volume are optional), or a JSON array of such objects or of
+ * [time, open, high, low, close, volume] tuples
+ */
+export const parseMarketFile = (text: string): DataPoint[] => {
+  const trimmed = text.trim();
+  let rows: Record<string, unknown>[];
+  if (trimmed.startsWith('[')) {
+    const data: unknown[] = JSON.parse(trimmed);
+    rows = data.map(item => Array.isArray(item)
+      ? { time: item[0], open: item[1], high: item[2], low: item[3], close: item[4], volume: item[5] }
+      : lowerKeys(item as Record<string, unknown>));
+  } else {
+    const [header, ...lines] = trimmed.split(/\r?\n/);
+    const columns = header.split(',').map(c => c.trim().toLowerCase());
+    rows = lines
+      .filter(line => line.trim() !== '')
+      .map(line => {
+        const cells = line.split(',');
+        return Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim()]));
+      });
+  }
+  return rows
+    .map(toPoint)
+    .filter((p): p is DataPoint => p !== null)
+    .sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Recorded prices from a static CSV/JSON file per coin, e.g. for offline demos.
+ * `{symbol}` and `{id}` in the URL template are replaced with the coin's.
+ */
+export const createFileProvider = (urlTemplate = DEFAULT_FILE_URL): MarketDataProvider => {
+  const files = new Map<string, Promise<DataPoint[]>>();
+
+  const load = (coin: Coin): Promise<DataPoint[]> => {
+    const url = urlTemplate.replace('{symbol}', coin.symbol).replace('{id}', coin.id);
+    let file = files.get(url);
+    if (!file) {
+      file = fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`${url}: ${response.status}`);
+          return response.text();
+        })
+        .then(parseMarketFile);
+      // A missing file is asked for again next time
+      file.catch(() => files.delete(url));
+      files.set(url, file);
+    }
+    return file;
+  };
+
+  return {
+    id: MarketProviderId.FILE,
+    label: 'Файл',
+    pair: coin => coin.symbol.toUpperCase(),
+
+    getHistory: async (coin: Coin, request: HistoryRequest): Promise<DataPoint[]> =>
+      pageOf(aggregateKlines(await load(coin), request.interval), request),
+
+    getPrice: async (coin: Coin): Promise<number | null> => {
+      const points = await load(coin);
+      return points[points.length - 1]?.price ?? null;
+    }
+  };
+};
@@ -0,0 +1,322 @@
+import { Candle, DataPoint, IndicatorConfig, IndicatorType } from '../types';
+import { candleStart, mergePoint, pointToCandle } from './candles';
+
+export interface IndicatorParam {
+  label: string;
+  defaultValue: number;
+  min: number;
+  step?: number;
+}
+
+export interface IndicatorDefinition {
+  label: string;
+  params: IndicatorParam[];
+  /** Drawn over the price, or in a pane of its own under the chart */
+  pane: 'price' | 'separate';
+  /** One value per output line, in this order */
+  outputs: string[];
+  defaultColor: string;
+}
+
+export const INDICATORS: Record<IndicatorType, IndicatorDefinition> = {
+  [IndicatorType.SMA]: {
+    label: 'SMA',
+    params: [{ label: 'Период', defaultValue: 20, min: 1 }],
+    pane: 'price',
+    outputs: ['SMA'],
+    defaultColor: '#f59e0b'
+  },
+  [IndicatorType.EMA]: {
+    label: 'EMA',
+    params: [{ label: 'Период', defaultValue: 50, min: 1 }],
+    pane: 'price',
+    outputs: ['EMA'],
+    defaultColor: '#38bdf8'
+  },
+  [IndicatorType.VWAP]: {
+    label: 'VWAP',
+    params: [],
+    pane: 'price',
+    outputs: ['VWAP'],
+    defaultColor: '#e879f9'
+  },
+  [IndicatorType.BOLLINGER]: {
+    label: 'Bollinger',
+    params: [
+      { label: 'Период', defaultValue: 20, min: 2 },
+      { label: 'σ', defaultValue: 2, min: 0.1, step: 0.1 }
+    ],
+    pane: 'price',
+    outputs: ['Upper', 'Middle', 'Lower'],
+    defaultColor: '#a78bfa'
+  },
+  [IndicatorType.RSI]: {
+    label: 'RSI',
+    params: [{ label: 'Период', defaultValue: 14, min: 2 }],
+    pane: 'separate',
+    outputs: ['RSI'],
+    defaultColor: '#facc15'
+  },
+  [IndicatorType.MACD]: {
+    label: 'MACD',
+    params: [
+      { label: 'Быстрая', defaultValue: 12, min: 1 },
+      { label: 'Медленная', defaultValue: 26, min: 2 },
+      { label: 'Сигнал', defaultValue: 9, min: 1 }
+    ],
+    pane: 'separate',
+    outputs: ['MACD', 'Signal', 'Histogram'],
+    defaultColor: '#38bdf8'
+  }
+};
+
+/** Params of a config with missing or invalid entries replaced by the defaults */
+export const resolveIndicatorParams = (config: IndicatorConfig): number[] =>
+  INDICATORS[config.type].params.map((param, i) => {
+    const value = config.params[i];
+    return Number.isFinite(value) && value >= param.min ? value : param.defaultValue;
+  });
+
+export const createIndicator = (type: IndicatorType): IndicatorConfig => ({
+  id: `${type}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  params: INDICATORS[type].params.map(p => p.defaultValue),
+  color: INDICATORS[type].defaultColor
+});
+
+/**
+ * Compact form for URLs: `sma:20:f59e0b,bb:20-2:a78bfa,vwap::e879f9`
+ */
+export const encodeIndicators = (configs: IndicatorConfig[]): string =>
+  configs.map(c => `${c.type}:${c.params.join('-')}:${c.color.replace('#', '')}`).join(',');
+
+export const decodeIndicators = (value: string): IndicatorConfig[] => {
+  const types = Object.values(IndicatorType) as string[];
+  return value.split(',').flatMap((entry, i) => {
+    const [type, params = '', color = ''] = entry.split(':');
+    if (!types.includes(type)) return [];
+    const config: IndicatorConfig = {
+      id: `${type}-${i}`,
+      type: type as IndicatorType,
+      params: params ? params.split('-').map(Number) : [],
+      color: /^[0-9a-f]{3,8}$/i.test(color) ? `#${color}` : INDICATORS[type as IndicatorType].defaultColor
+    };
+    return [{ ...config, params: resolveIndicatorParams(config) }];
+  });
+};
+
+/*
+ * Calculators are pure steps over a small state, so the candle that is still
+ * forming can be recalculated from the state before it on every tick.
+ */
+type IndicatorValues = (number | null)[];
+
+interface Calculator<S> {
+  init: () => S;
+  step: (state: S, candle: Candle) => [S, IndicatorValues];
+}
+
+interface EmaState {
+  count: number;
+  sum: number; // Seed: the first value is the SMA of the first `period` inputs
+  value: number | null;
+}
+
+const EMA_START: EmaState = { count: 0, sum: 0, value: null };
+
+const emaStep = (state: EmaState, input: number, period: number): EmaState => {
+  const count = state.count + 1;
+  if (count < period) return { count, sum: state.sum + input, value: null };
+  if (count === period) return { count, sum: state.sum + input, value: (state.sum + input) / period };
+  const k = 2 / (period + 1);
+  return { count, sum: state.sum, value: input * k + (state.value as number) * (1 - k) };
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CALCULATORS: Record<IndicatorType, (params: number[]) => Calculator<any>> = {
+  [IndicatorType.SMA]: ([period]): Calculator<number[]> => ({
+    init: () => [],
+    step: (window, candle) => {
+      const next = [...window, candle.close].slice(-period);
+      return [next, [next.length === period ? mean(next) : null]];
+    }
+  }),
+
+  [IndicatorType.EMA]: ([period]): Calculator<EmaState> => ({
+    init: () => EMA_START,
+    step: (state, candle) => {
+      const next = emaStep(state, candle.close, period);
+      return [next, [next.value]];
+    }
+  }),
+
+  // Anchored to the UTC day, like on most exchanges
+  [IndicatorType.VWAP]: (): Calculator<{ day: number; pv: number; volume: number }> => ({
+    init: () => ({ day: -1, pv: 0, volume: 0 }),
+    step: (state, candle) => {
+      const day = Math.floor(candle.time / DAY_MS);
+      const base = day === state.day ? state : { day, pv: 0, volume: 0 };
+      const typical = (candle.high + candle.low + candle.close) / 3;
+      const next = { day, pv: base.pv + typical * candle.volume, volume: base.volume + candle.volume };
+      return [next, [next.volume > 0 ? next.pv / next.volume : null]];
+    }
+  }),
+
+  [IndicatorType.BOLLINGER]: ([period, deviations]): Calculator<number[]> => ({
+    init: () => [],
+    step: (window, candle) => {
+      const next = [...window, candle.close].slice(-period);
+      if (next.length < period) return [next, [null, null, null]];
+      const middle = mean(next);
+      const std = Math.sqrt(mean(next.map(v => (v - middle) ** 2)));
+      return [next, [middle + deviations * std, middle, middle - deviations * std]];
+    }
+  }),
+
+  // Wilder's smoothing, seeded with plain averages over the first period
+  [IndicatorType.RSI]: ([period]): Calculator<{ prev: number | null; count: number; gain: number; loss: number }> => ({
+    init: () => ({ prev: null, count: 0, gain: 0, loss: 0 }),
+    step: (state, candle) => {
+      if (state.prev === null) return [{ ...state, prev: candle.close }, [null]];
+      const change = candle.close - state.prev;
+      const count = state.count + 1;
+      // Sums up to the plain average first, then decays by (period - 1) / period
+      const decay = count <= period ? 1 : (period - 1) / period;
+      const gain = state.gain * decay + Math.max(change, 0) / period;
+      const loss = state.loss * decay + Math.max(-change, 0) / period;
+      const value = count < period ? null : loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+      return [{ prev: candle.close, count, gain, loss }, [value]];
+    }
+  }),
+
+  [IndicatorType.MACD]: ([fast, slow, signal]): Calculator<{ fast: EmaState; slow: EmaState; signal: EmaState }> => ({
+    init: () => ({ fast: EMA_START, slow: EMA_START, signal: EMA_START }),
+    step: (state, candle) => {
+      const next = {
+        fast: emaStep(state.fast, candle.close, fast),
+        slow: emaStep(state.slow, candle.close, slow),
+        signal: state.signal
+      };
+      if (next.fast.value === null || next.slow.value === null) return [next, [null, null, null]];
+      const macd = next.fast.value - next.slow.value;
+      next.signal = emaStep(state.signal, macd, signal);
+      const signalValue = next.signal.value;
+      return [next, [macd, signalValue, signalValue !== null ? macd - signalValue : null]];
+    }
+  })
+};
+
+export interface IndicatorSnapshot {
+  /** Candles of the whole data set, the last one may still be forming */
+  candles: Candle[];
+  /** Per indicator id, one entry of output values per candle */
+  values: Record<string, IndicatorValues[]>;
+  /** Bumped whenever anything changed */
+  version: number;
+}
+
+export interface IndicatorEngine {
+  readonly intervalMs: number;
+  /** Catch up with `points`; only points after the last seen one are processed */
+  update: (points: DataPoint[]) => IndicatorSnapshot;
+}
+
+/**
+ * Candles of `intervalMs` and the indicators on them, kept up to date
+ * incrementally. Appended points only touch the forming candle (or start a
+ * new one); trimming old points drops candles from the front. Anything else,
+ * like prepended history, rebuilds from scratch.
+ */
+export const createIndicatorEngine = (configs: IndicatorConfig[], intervalMs: number): IndicatorEngine => {
+  const calculators = configs.map(config => ({
+    id: config.id,
+    calculator: CALCULATORS[config.type](resolveIndicatorParams(config))
+  }));
+
+  let snapshot: IndicatorSnapshot = { candles: [], values: {}, version: 0 };
+  let states: unknown[] = [];
+  let statesBeforeLast: unknown[] = []; // To redo the forming candle
+  let firstTime: number | null = null;
+  let lastTime: number | null = null;
+
+  const reset = () => {
+    snapshot = {
+      candles: [],
+      values: Object.fromEntries(calculators.map(c => [c.id, []])),
+      version: snapshot.version + 1
+    };
+    states = calculators.map(c => c.calculator.init());
+    statesBeforeLast = states;
+    firstTime = null;
+    lastTime = null;
+  };
+
+  const addPoint = (point: DataPoint) => {
+    const { candles, values } = snapshot;
+    const forming = candles[candles.length - 1];
+
+    if (forming && forming.time === candleStart(point.time, intervalMs)) {
+      mergePoint(forming, point);
+      calculators.forEach(({ id, calculator }, i) => {
+        const [state, output] = calculator.step(statesBeforeLast[i], forming);
+        states[i] = state;
+        values[id][values[id].length - 1] = output;
+      });
+    } else {
+      const candle = pointToCandle(point, intervalMs);
+      candles.push(candle);
+      statesBeforeLast = [...states];
+      calculators.forEach(({ id, calculator }, i) => {
+        const [state, output] = calculator.step(states[i], candle);
+        states[i] = state;
+        values[id].push(output);
+      });
+    }
+    lastTime = point.time;
+  };
+
+  // Index of the first point not seen yet, or -1 when the data was replaced
+  const resumeIndex = (points: DataPoint[]) => {
+    if (lastTime === null || firstTime === null || points[0].time < firstTime) return -1;
+    let i = points.length - 1;
+    while (i >= 0 && points[i].time > lastTime) i--;
+    return i >= 0 && points[i].time === lastTime ? i + 1 : -1;
+  };
+
+  reset();
+
+  return {
+    intervalMs,
+    update: (points) => {
+      if (points.length === 0) {
+        if (snapshot.candles.length > 0) reset();
+        return snapshot;
+      }
+
+      let start = resumeIndex(points);
+      if (start === -1) {
+        reset();
+        start = 0;
+      }
+      if (start === points.length && points[0].time === firstTime) return snapshot;
+
+      for (let i = start; i < points.length; i++) addPoint(points[i]);
+
+      // Candles the data no longer covers
+      const keepFrom = candleStart(points[0].time, intervalMs);
+      let drop = 0;
+      while (drop < snapshot.candles.length && snapshot.candles[drop].time < keepFrom) drop++;
+      if (drop > 0) {
+        snapshot.candles.splice(0, drop);
+        Object.values(snapshot.values).forEach(v => v.splice(0, drop));
+      }
+
+      firstTime = points[0].time;
+      snapshot = { ...snapshot, version: snapshot.version + 1 };
+      return snapshot;
+    }
+  };
+};
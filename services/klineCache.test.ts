@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DataPoint, MarketProviderId } from '../types';
+import { historyRefresh, KLINE_INTERVAL_MS } from './candles';
+import { klineCache, KlineCacheKey } from './klineCache';
+
+const MINUTE = KLINE_INTERVAL_MS['1m'];
+
+const klines = (from: number, count: number): DataPoint[] =>
+  Array.from({ length: count }, (_, i) => ({ time: from + i * MINUTE, price: 100 + i, isSimulation: false }));
+
+const times = (points: DataPoint[]) => points.map(p => p.time);
+
+let keys = 0;
+const freshKey = (): KlineCacheKey => ({ provider: MarketProviderId.BINANCE, symbol: `C${++keys}`, interval: '1m' });
+
+describe('klineCache', () => {
+  it('merges klines into the series by time', async () => {
+    const key = freshKey();
+    await klineCache.putKlines(key, klines(0, 3));
+    await klineCache.putKlines(key, [...klines(2 * MINUTE, 3), { time: 5 * MINUTE, price: 1, isSimulation: true }]);
+    assert.deepEqual(times(await klineCache.getKlines(key)), times(klines(0, 5)));
+  });
+
+  it('replaces a cache too old to join up with the fresh klines', async () => {
+    const key = freshKey();
+    const now = 1000 * MINUTE;
+    await klineCache.putKlines(key, klines(0, 50));
+
+    const cached = await klineCache.getKlines(key);
+    const { base, fetchLimit, replaceCache } = historyRefresh(cached, 60, MINUTE, now);
+    assert.deepEqual(base, []);
+    assert.equal(fetchLimit, 60);
+    assert.equal(replaceCache, true);
+
+    const fetched = klines(now - 59 * MINUTE, 60);
+    await klineCache.putKlines(key, fetched, { replace: replaceCache });
+    assert.deepEqual(times(await klineCache.getKlines(key)), times(fetched));
+  });
+
+  it('keeps the series when the fresh klines are empty', async () => {
+    const key = freshKey();
+    await klineCache.putKlines(key, klines(0, 3));
+    await klineCache.putKlines(key, [], { replace: true });
+    assert.equal((await klineCache.getKlines(key)).length, 3);
+  });
+});
+
+describe('historyRefresh', () => {
+  it('fetches only the klines since a recent cache', () => {
+    const cached = klines(0, 100);
+    const { base, fetchLimit, replaceCache } = historyRefresh(cached, 60, MINUTE, 105 * MINUTE);
+    assert.equal(base, cached);
+    assert.equal(fetchLimit, 7);
+    assert.equal(replaceCache, false);
+  });
+
+  it('fetches a full page without a cache', () => {
+    assert.deepEqual(historyRefresh([], 60, MINUTE, 0), { base: [], fetchLimit: 60, replaceCache: true });
+  });
+});
@@ -0,0 +1,151 @@
+import { DataPoint, KlineInterval, MarketProviderId } from '../types';
+
+/**
+ * Kline history kept in IndexedDB across coin switches and reloads, one series
+ * per provider, symbol and interval. Simulated points live in a store of their
+ * own, keyed by simulation, and never mix with the real klines. Without
+ * IndexedDB (runner, private mode) every call is a no-op returning nothing.
+ */
+
+export interface KlineCacheKey {
+  provider: MarketProviderId;
+  symbol: string;
+  interval: KlineInterval;
+}
+
+const DB_NAME = 'cryptosim';
+const DB_VERSION = 1;
+const KLINES = 'klines';
+const SIMULATIONS = 'simulation_points';
+const META = 'meta'; // Sizes and ages, so eviction does not load the series
+
+/** Series nobody read or wrote for this long are dropped */
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+/** Newest points kept per series */
+const MAX_SERIES_POINTS = 5000;
+/** All series together; the least recently used go first */
+const MAX_TOTAL_POINTS = 300000;
+
+interface CacheMeta {
+  id: string; // `${store}/${key}`
+  store: typeof KLINES | typeof SIMULATIONS;
+  key: string;
+  count: number;
+  usedAt: number;
+}
+
+const klineKey = ({ provider, symbol, interval }: KlineCacheKey) => `${provider}:${symbol}:${interval}`;
+
+let db: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!db) {
+    db = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        [KLINES, SIMULATIONS, META].forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+  }
+  return db;
+};
+
+const done = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+const result = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const readSeries = async (store: CacheMeta['store'], key: string): Promise<DataPoint[]> => {
+  try {
+    const database = await openDb();
+    if (!database) return [];
+    const transaction = database.transaction([store, META], 'readwrite');
+    const points: DataPoint[] | undefined = await result(transaction.objectStore(store).get(key));
+    if (points) {
+      const meta: CacheMeta = { id: `${store}/${key}`, store, key, count: points.length, usedAt: Date.now() };
+      transaction.objectStore(META).put(meta, meta.id);
+    }
+    await done(transaction);
+    return points ?? [];
+  } catch (error) {
+    console.warn('Kline cache read failed:', error);
+    return [];
+  }
+};
+
+const writeSeries = async (store: CacheMeta['store'], key: string, update: (points: DataPoint[]) => DataPoint[]) => {
+  try {
+    const database = await openDb();
+    if (!database) return;
+    const transaction = database.transaction([store, META], 'readwrite');
+    const series = transaction.objectStore(store);
+    const points = update((await result(series.get(key)) as DataPoint[] | undefined) ?? []);
+    series.put(points, key);
+    const meta: CacheMeta = { id: `${store}/${key}`, store, key, count: points.length, usedAt: Date.now() };
+    transaction.objectStore(META).put(meta, meta.id);
+    await done(transaction);
+    await evict(database);
+  } catch (error) {
+    console.warn('Kline cache write failed:', error);
+  }
+};
+
+// Drops stale series, then the least recently used ones while over the size limit
+const evict = async (database: IDBDatabase) => {
+  const transaction = database.transaction([KLINES, SIMULATIONS, META], 'readwrite');
+  const metas: CacheMeta[] = await result(transaction.objectStore(META).getAll());
+  const now = Date.now();
+  let total = metas.reduce((sum, meta) => sum + meta.count, 0);
+  metas
+    .sort((a, b) => a.usedAt - b.usedAt)
+    .forEach(meta => {
+      if (now - meta.usedAt <= MAX_AGE_MS && total <= MAX_TOTAL_POINTS) return;
+      total -= meta.count;
+      transaction.objectStore(meta.store).delete(meta.key);
+      transaction.objectStore(META).delete(meta.id);
+    });
+  await done(transaction);
+};
+
+// Points by time, later ones winning; only the newest `max` kept
+const merge = (existing: DataPoint[], points: DataPoint[], max: number): DataPoint[] => {
+  const byTime = new Map<number, DataPoint>();
+  existing.forEach(point => byTime.set(point.time, point));
+  points.forEach(point => byTime.set(point.time, point));
+  return [...byTime.values()].sort((a, b) => a.time - b.time).slice(-max);
+};
+
+export const klineCache = {
+  /** Cached klines of the series, oldest first */
+  getKlines: (key: KlineCacheKey): Promise<DataPoint[]> => readSeries(KLINES, klineKey(key)),
+
+  /**
+   * Merge real klines into the series; simulated points are left out. With
+   * `replace` they become the whole series, for a cache too old to join up.
+   */
+  putKlines: (key: KlineCacheKey, points: DataPoint[], { replace = false }: { replace?: boolean } = {}): Promise<void> => {
+    const real = points.filter(p => !p.isSimulation);
+    if (real.length === 0) return Promise.resolve();
+    return writeSeries(KLINES, klineKey(key), existing => merge(replace ? [] : existing, real, MAX_SERIES_POINTS));
+  },
+
+  getSimulationPoints: (simulationId: string): Promise<DataPoint[]> => readSeries(SIMULATIONS, simulationId),
+
+  /** The simulated path as last loaded, replacing what was cached for it */
+  putSimulationPoints: (simulationId: string, points: DataPoint[], max: number): Promise<void> => {
+    if (points.length === 0) return Promise.resolve();
+    return writeSeries(SIMULATIONS, simulationId, () => points.slice(-max));
+  }
+};
@@ -0,0 +1,61 @@
+import { Coin, DataPoint, KlineInterval, KrakenOhlc, KrakenResponse, KrakenTicker, MarketProviderId } from '../types';
+import { fetchWithFailover, HistoryRequest, MarketDataProvider, pageOf, withCorsProxy } from './marketData';
+
+const BASE_URL = 'https://api.kraken.com/0/public';
+
+/** Interval parameter in minutes */
+const INTERVAL_MINUTES: Record<KlineInterval, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60
+};
+
+// Kraken keeps the old ISO 4217-style names for a few assets
+const ASSET_ALIASES: Record<string, string> = {
+  BTC: 'XBT',
+  DOGE: 'XDG'
+};
+
+const pair = (coin: Coin) => {
+  const symbol = coin.symbol.toUpperCase();
+  return `${ASSET_ALIASES[symbol] ?? symbol}USD`;
+};
+
+/** The single pair entry of a result; the response key is Kraken's own pair name (XXBTZUSD) */
+const fetchResult = async <T>(url: string): Promise<T> => {
+  const data: KrakenResponse<T> = await fetchWithFailover(withCorsProxy(url));
+  if (data.error?.length) throw new Error(data.error.join(', '));
+  const result = data.result ?? {};
+  const key = Object.keys(result).find(k => k !== 'last');
+  if (!key) throw new Error('Empty Kraken response');
+  return result[key];
+};
+
+/**
+ * Kraken USD markets over REST; polled, there is no stream. OHLC only reaches
+ * 720 candles back, so scroll-back ends there.
+ */
+export const createKrakenProvider = (): MarketDataProvider => ({
+  id: MarketProviderId.KRAKEN,
+  label: 'Kraken',
+  pair,
+
+  getHistory: async (coin: Coin, request: HistoryRequest): Promise<DataPoint[]> => {
+    const data = await fetchResult<KrakenOhlc[]>(`${BASE_URL}/OHLC?pair=${pair(coin)}&interval=${INTERVAL_MINUTES[request.interval]}`);
+    return pageOf(data.map(ohlc => ({
+      time: ohlc[0] * 1000,
+      price: parseFloat(ohlc[4]),
+      open: parseFloat(ohlc[1]),
+      high: parseFloat(ohlc[2]),
+      low: parseFloat(ohlc[3]),
+      volume: parseFloat(ohlc[6]),
+      isSimulation: false
+    })), request);
+  },
+
+  getPrice: async (coin: Coin): Promise<number | null> => {
+    const ticker = await fetchResult<KrakenTicker>(`${BASE_URL}/Ticker?pair=${pair(coin)}`);
+    return parseFloat(ticker.c?.[0] ?? '') || null;
+  }
+});
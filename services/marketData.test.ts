@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { createRequestBudget, fetchWithFailover, isRateLimited, retryAfterOf } from './marketData';
+
+describe('createRequestBudget', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('tells how long until a spent budget has room again', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const budget = createRequestBudget(10, 60000);
+    assert.equal(budget.take(4), true);
+    mock.timers.tick(1000);
+    assert.equal(budget.take(4), true);
+    assert.equal(budget.take(4), false);
+    // The first request has to leave the window
+    assert.equal(budget.retryIn(4), 59000);
+    assert.equal(budget.retryIn(2), 0);
+
+    budget.pauseFor(90000);
+    assert.equal(budget.take(1), false);
+    assert.equal(budget.retryIn(1), 90000);
+  });
+});
+
+describe('fetchWithFailover', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('throws a rate limit answer with the wait the source asked for', async () => {
+    const pauses: number[] = [];
+    mock.method(globalThis, 'fetch', async () => new Response('', { status: 429, headers: { 'Retry-After': '30' } }));
+    const error = await fetchWithFailover(['https://a.example', 'https://b.example'], { onRateLimit: ms => pauses.push(ms) })
+      .catch((e: unknown) => e);
+    assert.equal(isRateLimited(error), true);
+    assert.equal(retryAfterOf(error), 30000);
+    assert.deepEqual(pauses, [30000]);
+  });
+
+  it('does not count other client errors as rate limiting', async () => {
+    mock.method(globalThis, 'fetch', async () => new Response('', { status: 400 }));
+    const error = await fetchWithFailover(['https://a.example']).catch((e: unknown) => e);
+    assert.equal(isRateLimited(error), false);
+  });
+});
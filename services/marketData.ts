@@ -0,0 +1,164 @@
+import { Candle, Coin, DataPoint, KlineInterval, MarketProviderId, TickerStats } from '../types';
+import { candleStart, KLINE_INTERVAL_MS, mergePoint, pointToCandle } from './candles';
+import { MarketStream, MarketStreamHandlers } from './marketStream';
+
+/**
+ * Common shape of a market data source. Providers normalise the coin's symbol
+ * to their own pair names and map their klines to DataPoint, so the chart and
+ * the engine never see exchange specifics. Registered in marketProviders.
+ */
+
+export interface HistoryRequest {
+  interval: KlineInterval;
+  limit: number;
+  /** Latest kline open time to include, for scroll-back; the newest klines otherwise */
+  endTime?: number;
+}
+
+export interface MarketDataProvider {
+  id: MarketProviderId;
+  label: string;
+  /** The provider's name for the coin's market, e.g. BTCUSDT, BTC-USD or XBTUSD */
+  pair: (coin: Coin) => string;
+  /** Oldest first; throws when the source is unreachable or does not list the coin */
+  getHistory: (coin: Coin, request: HistoryRequest) => Promise<DataPoint[]>;
+  getPrice: (coin: Coin) => Promise<number | null>;
+  /** Prices of many coins in one request, by coin symbol; coins the source does not list are left out */
+  getPrices?: (coins: Coin[]) => Promise<Record<string, number>>;
+  /** 24h tickers of many coins in one request, by coin symbol */
+  get24hStats?: (coins: Coin[]) => Promise<Record<string, TickerStats>>;
+  /** Live prices; without it callers poll getPrice */
+  createStream?: (handlers: MarketStreamHandlers) => MarketStream;
+}
+
+/** The URL followed by the same request through a public CORS proxy */
+export const withCorsProxy = (url: string): string[] => [url, `https://corsproxy.io/?${encodeURIComponent(url)}`];
+
+export interface FetchOptions {
+  timeoutMs?: number;
+  /** Called on 429 / 418 with how long the source asks to wait */
+  onRateLimit?: (retryAfterMs: number) => void;
+}
+
+/** HTTP status of an error thrown by fetchWithFailover, when a source answered */
+export const httpStatusOf = (error: unknown): number | undefined => (error as { status?: number } | null)?.status;
+
+/** The source turned the request down for its rate limit, or the client's own budget for it ran out */
+export const isRateLimited = (error: unknown): boolean => {
+  const status = httpStatusOf(error);
+  return status === 429 || status === 418;
+};
+
+/** How long a rate-limited request should wait before it is tried again, when known */
+export const retryAfterOf = (error: unknown): number | undefined => (error as { retryAfterMs?: number } | null)?.retryAfterMs;
+
+/**
+ * JSON from the first of `urls` that answers (Primary -> Secondary -> Proxy).
+ * A client error is the request's fault, so it is thrown without trying the rest.
+ */
+export const fetchWithFailover = async (urls: string[], { timeoutMs = 4000, onRateLimit }: FetchOptions = {}): Promise<any> => {
+  for (const url of urls) {
+    let response: Response;
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      response = await fetch(url, { signal: controller.signal });
+      clearTimeout(timeoutId);
+
+      if (response.ok) {
+        return await response.json();
+      }
+    } catch (e) {
+      // Silently continue to next endpoint
+      continue;
+    }
+    if (response.status === 429 || response.status === 418) {
+      const retryAfterMs = (Number(response.headers.get('Retry-After')) || 60) * 1000;
+      onRateLimit?.(retryAfterMs);
+      throw Object.assign(new Error(`HTTP ${response.status}: ${url}`), { status: response.status, retryAfterMs });
+    }
+    if (response.status >= 400 && response.status < 500) {
+      throw Object.assign(new Error(`HTTP ${response.status}: ${url}`), { status: response.status });
+    }
+  }
+  throw new Error('All API endpoints failed');
+};
+
+export interface RequestBudget {
+  /** Spends `weight` if the window has room for it */
+  take: (weight: number) => boolean;
+  /** No requests at all for a while, e.g. after a rate limit answer */
+  pauseFor: (ms: number) => void;
+  /** How long until `weight` fits again */
+  retryIn: (weight: number) => number;
+}
+
+/** Sliding-window budget of request weight, for sources that limit it */
+export const createRequestBudget = (limit: number, windowMs = 60000): RequestBudget => {
+  let spent: { time: number; weight: number }[] = [];
+  let pausedUntil = 0;
+  return {
+    take: (weight: number) => {
+      const now = Date.now();
+      if (now < pausedUntil) return false;
+      spent = spent.filter(s => now - s.time < windowMs);
+      if (spent.reduce((sum, s) => sum + s.weight, 0) + weight > limit) return false;
+      spent.push({ time: now, weight });
+      return true;
+    },
+    pauseFor: (ms: number) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+    retryIn: (weight: number) => {
+      const now = Date.now();
+      const live = spent.filter(s => now - s.time < windowMs);
+      let over = live.reduce((sum, s) => sum + s.weight, 0) + weight - limit;
+      let freedAt = now;
+      for (const s of live) {
+        if (over <= 0) break;
+        over -= s.weight;
+        freedAt = s.time + windowMs;
+      }
+      return Math.max(pausedUntil, freedAt) - now;
+    }
+  };
+};
+
+/**
+ * Klines of a finer interval merged into `interval` ones, for intervals a
+ * source does not serve itself (or files of raw quotes)
+ */
+export const aggregateKlines = (points: DataPoint[], interval: KlineInterval): DataPoint[] => {
+  const intervalMs = KLINE_INTERVAL_MS[interval];
+  const result: DataPoint[] = [];
+  let current: Candle | null = null;
+  const flush = () => {
+    if (!current) return;
+    result.push({
+      time: current.time,
+      price: current.close,
+      open: current.open,
+      high: current.high,
+      low: current.low,
+      volume: current.volume,
+      isSimulation: false
+    });
+  };
+  for (const point of points) {
+    if (current && candleStart(point.time, intervalMs) === current.time) {
+      mergePoint(current, point);
+    } else {
+      flush();
+      current = pointToCandle(point, intervalMs);
+    }
+  }
+  flush();
+  return result;
+};
+
+/** The `limit` newest klines opened at or before `endTime` */
+export const pageOf = (points: DataPoint[], { limit, endTime }: HistoryRequest): DataPoint[] => {
+  const upTo = endTime != null ? points.filter(p => p.time <= endTime) : points;
+  return upTo.slice(-limit);
+};
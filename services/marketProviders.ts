@@ -0,0 +1,123 @@
+import { Coin, MarketProviderId } from '../types';
+import { createBinanceProvider } from './binanceProvider';
+import { createCoinbaseProvider } from './coinbaseProvider';
+import { COINS } from './coins';
+import { createFileProvider } from './fileProvider';
+import { MarketDataProvider } from './marketData';
+import { createKrakenProvider } from './krakenProvider';
+import { withRecording } from './marketRecorder';
+import { createMockProvider } from './mockProvider';
+import { createReplayProvider, ReplayOptions } from './replayProvider';
+import { MarketStream, MarketStreamHandlers, MarketStreamSubscriptions } from './marketStream';
+
+export interface MarketDataSettings {
+  /** Source for coins without one of their own */
+  provider: MarketProviderId;
+  /** Binance combined-stream endpoint */
+  streamUrl?: string;
+  /** URL template of the file provider */
+  fileUrl?: string;
+  /** Fixture of the replay provider */
+  fixture?: ReplayOptions['fixture'];
+  replaySpeed?: number;
+}
+
+// Real sources can be recorded into a fixture; generated and replayed data need not be
+const buildProviders = ({ streamUrl, fileUrl, fixture, replaySpeed }: MarketDataSettings): Record<MarketProviderId, MarketDataProvider> => ({
+  [MarketProviderId.BINANCE]: withRecording(createBinanceProvider(streamUrl)),
+  [MarketProviderId.COINBASE]: withRecording(createCoinbaseProvider()),
+  [MarketProviderId.KRAKEN]: withRecording(createKrakenProvider()),
+  [MarketProviderId.FILE]: withRecording(createFileProvider(fileUrl)),
+  [MarketProviderId.MOCK]: createMockProvider(),
+  [MarketProviderId.REPLAY]: createReplayProvider({ fixture, speed: replaySpeed })
+});
+
+let settings: MarketDataSettings = { provider: MarketProviderId.BINANCE };
+let providers = buildProviders(settings);
+
+export const isMarketProviderId = (value: unknown): value is MarketProviderId =>
+  Object.values(MarketProviderId).includes(value as MarketProviderId);
+
+export const marketProviders = {
+  // Settings are read once at startup (browser env / runner env); the global source can change later
+  configure: (next: Partial<MarketDataSettings>) => {
+    settings = { ...settings, ...next };
+    providers = buildProviders(settings);
+  },
+
+  getGlobal: (): MarketProviderId => settings.provider,
+
+  list: (): MarketDataProvider[] => Object.values(providers),
+
+  get: (id: MarketProviderId): MarketDataProvider => providers[id],
+
+  // A coin's own source wins over the global one
+  forCoin: (coin: Coin): MarketDataProvider => providers[coin.provider ?? settings.provider]
+};
+
+const emptySubscriptions = (): MarketStreamSubscriptions => ({ tickers: [], trades: [], klines: [] });
+
+/**
+ * One stream over the coins' providers: subscriptions are split by provider,
+ * one underlying stream each. It only counts as connected when every coin
+ * asked for is on a connected stream, so callers keep polling REST for coins
+ * whose source cannot stream.
+ */
+export const createProviderStream = (handlers: MarketStreamHandlers): MarketStream => {
+  const streams = new Map<MarketProviderId, MarketStream>();
+  let unstreamed = false;
+  let connected = false;
+
+  const isConnected = () => !unstreamed && streams.size > 0 && [...streams.values()].every(s => s.isConnected());
+
+  const update = () => {
+    const value = isConnected();
+    if (value === connected) return;
+    connected = value;
+    handlers.onConnectionChange?.(value);
+  };
+
+  const forwarded: MarketStreamHandlers = { ...handlers, onConnectionChange: update };
+
+  return {
+    setSubscriptions: (subscriptions: MarketStreamSubscriptions) => {
+      const byProvider = new Map<MarketProviderId, MarketStreamSubscriptions>();
+      unstreamed = false;
+      (Object.keys(subscriptions) as (keyof MarketStreamSubscriptions)[]).forEach(kind => {
+        subscriptions[kind].forEach(symbol => {
+          const coin = COINS.find(c => c.symbol === symbol);
+          const provider = coin && marketProviders.forCoin(coin);
+          if (!provider?.createStream) {
+            unstreamed = true;
+            return;
+          }
+          if (!byProvider.has(provider.id)) byProvider.set(provider.id, emptySubscriptions());
+          byProvider.get(provider.id)![kind].push(symbol);
+        });
+      });
+
+      streams.forEach((stream, id) => {
+        if (byProvider.has(id)) return;
+        stream.close();
+        streams.delete(id);
+      });
+      byProvider.forEach((wanted, id) => {
+        let stream = streams.get(id);
+        if (!stream) {
+          stream = marketProviders.get(id).createStream!(forwarded);
+          streams.set(id, stream);
+        }
+        stream.setSubscriptions(wanted);
+      });
+      update();
+    },
+
+    isConnected,
+
+    close: () => {
+      streams.forEach(stream => stream.close());
+      streams.clear();
+      update();
+    }
+  };
+};
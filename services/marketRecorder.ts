@@ -0,0 +1,90 @@
+import { Coin, DataPoint, KlineInterval, MarketFixture, MarketFixtureEvent } from '../types';
+import { HistoryRequest, MarketDataProvider } from './marketData';
+import { MarketStreamHandlers } from './marketStream';
+
+/**
+ * Captures what live providers return (klines, ticker prices) and stream
+ * events into a MarketFixture for the replay provider. Providers are wrapped
+ * once in marketProviders and only record while a recording is running.
+ */
+
+interface Recording {
+  startedAt: number;
+  klines: Record<string, Partial<Record<KlineInterval, Map<number, DataPoint>>>>;
+  events: MarketFixtureEvent[];
+}
+
+let recording: Recording | null = null;
+
+const addKlines = (symbol: string, interval: KlineInterval, points: DataPoint[]) => {
+  if (!recording) return;
+  const bySymbol = recording.klines[symbol] ?? (recording.klines[symbol] = {});
+  const byTime = bySymbol[interval] ?? (bySymbol[interval] = new Map());
+  points.forEach(point => byTime.set(point.time, point));
+};
+
+const addEvent = (event: MarketFixtureEvent) => {
+  recording?.events.push(event);
+};
+
+export const marketRecorder = {
+  start: () => {
+    recording = { startedAt: Date.now(), klines: {}, events: [] };
+  },
+
+  isRecording: () => recording !== null,
+
+  /** Ends the recording; null when none was running */
+  stop: (): MarketFixture | null => {
+    if (!recording) return null;
+    const { startedAt, klines, events } = recording;
+    recording = null;
+    const fixtureKlines: MarketFixture['klines'] = {};
+    Object.entries(klines).forEach(([symbol, byInterval]) => {
+      fixtureKlines[symbol] = {};
+      (Object.keys(byInterval) as KlineInterval[]).forEach(interval => {
+        fixtureKlines[symbol][interval] = [...byInterval[interval]!.values()].sort((a, b) => a.time - b.time);
+      });
+    });
+    return { version: 1, startedAt, endedAt: Date.now(), klines: fixtureKlines, events };
+  }
+};
+
+/** The provider, with everything it returns also going into the running recording */
+export const withRecording = (provider: MarketDataProvider): MarketDataProvider => {
+  const { createStream, getPrices } = provider;
+  return {
+    ...provider,
+
+    getHistory: async (coin: Coin, request: HistoryRequest) => {
+      const points = await provider.getHistory(coin, request);
+      addKlines(coin.symbol, request.interval, points);
+      return points;
+    },
+
+    getPrice: async (coin: Coin) => {
+      const price = await provider.getPrice(coin);
+      if (price != null) addEvent({ type: 'price', symbol: coin.symbol, time: Date.now(), price });
+      return price;
+    },
+
+    getPrices: getPrices && (async (coins: Coin[]) => {
+      const prices = await getPrices(coins);
+      const time = Date.now();
+      Object.entries(prices).forEach(([symbol, price]) => addEvent({ type: 'price', symbol, time, price }));
+      return prices;
+    }),
+
+    createStream: createStream && ((handlers: MarketStreamHandlers) => createStream({
+      ...handlers,
+      onPrice: (symbol, price, time) => {
+        addEvent({ type: 'price', symbol, time: Date.now(), price });
+        handlers.onPrice(symbol, price, time);
+      },
+      onKline: (symbol, kline, closed) => {
+        addEvent({ type: 'kline', symbol, time: Date.now(), kline, closed });
+        handlers.onKline?.(symbol, kline, closed);
+      }
+    }))
+  };
+};
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, it } from 'node:test';
+import WebSocket, { WebSocketServer } from 'ws';
+import { DataPoint } from '../types';
+import { createMarketStream, MarketStream, MarketStreamHandlers, MarketStreamOptions } from './marketStream';
+
+/** Local stand-in for the combined-stream endpoint: records what clients send */
+const startServer = async () => {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+  const sockets: WebSocket[] = [];
+  const requests: { method: string; params: string[] }[] = [];
+  server.on('connection', socket => {
+    sockets.push(socket);
+    socket.on('message', raw => {
+      const request = JSON.parse(raw.toString());
+      requests.push(request);
+      socket.send(JSON.stringify({ result: null, id: request.id }));
+    });
+  });
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}/stream`,
+    sockets,
+    requests,
+    send: (stream: string, data: unknown) => sockets[sockets.length - 1].send(JSON.stringify({ stream, data })),
+    close: () => new Promise<void>(resolve => {
+      server.clients.forEach(client => client.terminate());
+      server.close(() => resolve());
+    })
+  };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for the stream');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+type Server = Awaited<ReturnType<typeof startServer>>;
+
+describe('createMarketStream', () => {
+  let server: Server | null = null;
+  let stream: MarketStream | null = null;
+
+  const open = async (handlers: Partial<MarketStreamHandlers>, options: MarketStreamOptions = {}) => {
+    server = await startServer();
+    const connections: boolean[] = [];
+    stream = createMarketStream(
+      { onPrice: () => {}, ...handlers, onConnectionChange: connected => connections.push(connected) },
+      { url: server.url, WebSocketImpl: WebSocket as unknown as typeof globalThis.WebSocket, ...options }
+    );
+    return { server, stream, connections };
+  };
+
+  afterEach(async () => {
+    stream?.close();
+    await server?.close();
+    stream = null;
+    server = null;
+  });
+
+  it('parses trades, mini tickers and klines of the combined stream', async () => {
+    const prices: [string, number, number][] = [];
+    const klines: [string, DataPoint, boolean][] = [];
+    const { server, stream } = await open({
+      onPrice: (symbol, price, time) => prices.push([symbol, price, time]),
+      onKline: (symbol, kline, closed) => klines.push([symbol, kline, closed])
+    });
+    await waitFor(() => stream.isConnected());
+    stream.setSubscriptions({ tickers: ['ETH'], trades: ['BTC'], klines: ['BTC'] });
+    await waitFor(() => server.requests.length === 1);
+    assert.equal(server.requests[0].method, 'SUBSCRIBE');
+    assert.deepEqual(
+      [...server.requests[0].params].sort(),
+      ['btcusdt@kline_1m', 'btcusdt@trade', 'ethusdt@miniTicker']
+    );
+
+    server.send('btcusdt@trade', { e: 'trade', s: 'BTCUSDT', p: '65000.5', T: 1000 });
+    server.send('ethusdt@miniTicker', { e: '24hrMiniTicker', s: 'ETHUSDT', c: '3200', E: 2000 });
+    server.send('btcusdt@kline_1m', {
+      e: 'kline',
+      s: 'BTCUSDT',
+      k: { t: 60000, o: '1', h: '3', l: '0.5', c: '2', v: '10', x: true }
+    });
+    server.sockets[0].send('not json');
+    await waitFor(() => klines.length === 1);
+
+    assert.deepEqual(prices, [['BTC', 65000.5, 1000], ['ETH', 3200, 2000]]);
+    assert.deepEqual(klines, [[
+      'BTC',
+      { time: 60000, price: 2, open: 1, high: 3, low: 0.5, volume: 10, isSimulation: false },
+      true
+    ]]);
+  });
+
+  it('reconnects with backoff after a close and subscribes again', async () => {
+    const { server, stream, connections } = await open({}, { minBackoffMs: 200 });
+    await waitFor(() => stream.isConnected());
+    stream.setSubscriptions({ tickers: [], trades: ['BTC'], klines: [] });
+    await waitFor(() => server.requests.length === 1);
+
+    const closedAt = Date.now();
+    server.sockets[0].close();
+    await waitFor(() => connections.length === 2);
+    assert.equal(stream.isConnected(), false);
+
+    await waitFor(() => server.requests.length === 2);
+    // ±20% jitter on the first delay
+    assert.ok(Date.now() - closedAt >= 160);
+    assert.equal(server.sockets.length, 2);
+    assert.equal(server.requests[1].method, 'SUBSCRIBE');
+    assert.deepEqual(server.requests[1].params, ['btcusdt@trade']);
+    assert.deepEqual(connections, [true, false, true]);
+  });
+
+  it('drops a silent connection, so callers fall back to REST', async () => {
+    const { server, stream, connections } = await open({}, { staleMs: 150, minBackoffMs: 5000 });
+    await waitFor(() => stream.isConnected());
+    stream.setSubscriptions({ tickers: ['BTC'], trades: [], klines: [] });
+    await waitFor(() => server.requests.length === 1);
+
+    // The subscribe reply was the last message; nothing comes after it
+    await waitFor(() => !stream.isConnected());
+    assert.deepEqual(connections, [true, false]);
+  });
+
+  it('moves the subscriptions when the coin in view changes', async () => {
+    const { server, stream } = await open({});
+    await waitFor(() => stream.isConnected());
+    stream.setSubscriptions({ tickers: ['BTC', 'ETH'], trades: ['BTC'], klines: ['BTC'] });
+    await waitFor(() => server.requests.length === 1);
+
+    stream.setSubscriptions({ tickers: ['BTC', 'ETH'], trades: ['ETH'], klines: ['ETH'] });
+    await waitFor(() => server.requests.length === 3);
+    const [, unsubscribe, subscribe] = server.requests;
+    assert.equal(unsubscribe.method, 'UNSUBSCRIBE');
+    assert.deepEqual([...unsubscribe.params].sort(), ['btcusdt@kline_1m', 'btcusdt@trade']);
+    assert.equal(subscribe.method, 'SUBSCRIBE');
+    assert.deepEqual([...subscribe.params].sort(), ['ethusdt@kline_1m', 'ethusdt@trade']);
+  });
+});
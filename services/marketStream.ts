@@ -0,0 +1,191 @@
+import { DataPoint } from '../types';
+
+/**
+ * Live market data over Binance WebSocket streams (`@trade`, `@miniTicker`,
+ * `@kline_1m`) on one combined connection. Reconnects with exponential
+ * backoff and re-subscribes; callers fall back to REST polling while
+ * `isConnected()` is false.
+ */
+
+export const DEFAULT_STREAM_URL = 'wss://data-stream.binance.vision/stream';
+
+export interface MarketStreamSubscriptions {
+  tickers: string[]; // Coin symbols for the list, about one price a second each
+  trades: string[]; // Every trade, for the coin in view
+  klines: string[]; // Forming 1m klines, for real volume on live ticks
+}
+
+export interface MarketStreamHandlers {
+  onPrice: (symbol: string, price: number, time: number) => void;
+  /** Forming (or just closed) 1m kline; the volume grows until it closes */
+  onKline?: (symbol: string, kline: DataPoint, closed: boolean) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+export interface MarketStreamOptions {
+  url?: string;
+  /** Socket constructor, e.g. a stand-in server's client; defaults to the global one */
+  WebSocketImpl?: typeof WebSocket;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+  /** An open socket silent for this long is considered dead and reopened */
+  staleMs?: number;
+}
+
+export interface MarketStream {
+  setSubscriptions: (subscriptions: MarketStreamSubscriptions) => void;
+  isConnected: () => boolean;
+  close: () => void;
+}
+
+const QUOTE = 'USDT';
+
+const streamNames = ({ tickers, trades, klines }: MarketStreamSubscriptions): Set<string> => new Set([
+  ...tickers.map(s => `${s.toLowerCase()}${QUOTE.toLowerCase()}@miniTicker`),
+  ...trades.map(s => `${s.toLowerCase()}${QUOTE.toLowerCase()}@trade`),
+  ...klines.map(s => `${s.toLowerCase()}${QUOTE.toLowerCase()}@kline_1m`)
+]);
+
+// BTCUSDT -> BTC
+const symbolOf = (pair: string) => pair.endsWith(QUOTE) ? pair.slice(0, -QUOTE.length) : pair;
+
+export const createMarketStream = (handlers: MarketStreamHandlers, options: MarketStreamOptions = {}): MarketStream => {
+  const {
+    url = DEFAULT_STREAM_URL,
+    WebSocketImpl = typeof WebSocket !== 'undefined' ? WebSocket : undefined,
+    minBackoffMs = 1000,
+    maxBackoffMs = 30000,
+    staleMs = 15000
+  } = options;
+
+  let socket: WebSocket | null = null;
+  let connected = false;
+  let closed = false;
+  let attempts = 0;
+  let requestId = 0;
+  let wanted = new Set<string>();
+  let subscribed = new Set<string>(); // What the open socket is subscribed to
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let staleTimer: ReturnType<typeof setInterval> | null = null;
+  let lastMessageAt = 0;
+
+  const setConnected = (value: boolean) => {
+    if (connected === value) return;
+    connected = value;
+    handlers.onConnectionChange?.(value);
+  };
+
+  const send = (method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]) => {
+    if (!socket || !connected || params.length === 0) return;
+    socket.send(JSON.stringify({ method, params, id: ++requestId }));
+  };
+
+  const sync = () => {
+    send('UNSUBSCRIBE', [...subscribed].filter(name => !wanted.has(name)));
+    send('SUBSCRIBE', [...wanted].filter(name => !subscribed.has(name)));
+    if (connected) subscribed = new Set(wanted);
+  };
+
+  const handleMessage = (raw: string) => {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    // Combined streams wrap events as { stream, data }; replies to (un)subscribe have an id
+    const data = message?.data;
+    if (!data || typeof data.s !== 'string') return;
+    const symbol = symbolOf(data.s);
+
+    if (data.e === 'trade') {
+      handlers.onPrice(symbol, parseFloat(data.p), Number(data.T));
+    } else if (data.e === '24hrMiniTicker') {
+      handlers.onPrice(symbol, parseFloat(data.c), Number(data.E));
+    } else if (data.e === 'kline' && data.k) {
+      const k = data.k;
+      handlers.onKline?.(symbol, {
+        time: Number(k.t),
+        price: parseFloat(k.c),
+        open: parseFloat(k.o),
+        high: parseFloat(k.h),
+        low: parseFloat(k.l),
+        volume: parseFloat(k.v),
+        isSimulation: false
+      }, !!k.x);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    // Exponential backoff with ±20% jitter, so many tabs do not reconnect in step
+    const delay = Math.min(maxBackoffMs, minBackoffMs * 2 ** attempts) * (0.8 + Math.random() * 0.4);
+    attempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed || !WebSocketImpl) return;
+    let ws: WebSocket;
+    try {
+      ws = new WebSocketImpl(url);
+    } catch {
+      scheduleReconnect();
+      return;
+    }
+    socket = ws;
+
+    ws.onopen = () => {
+      attempts = 0;
+      lastMessageAt = Date.now();
+      subscribed = new Set();
+      setConnected(true);
+      sync();
+    };
+    ws.onmessage = (event: MessageEvent) => {
+      lastMessageAt = Date.now();
+      if (typeof event.data === 'string') handleMessage(event.data);
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      subscribed = new Set();
+      setConnected(false);
+      scheduleReconnect();
+    };
+    // An error is always followed by close
+    ws.onerror = () => {};
+  };
+
+  if (WebSocketImpl) {
+    connect();
+    staleTimer = setInterval(() => {
+      // Only watch while there is something to hear from
+      if (connected && wanted.size > 0 && Date.now() - lastMessageAt > staleMs) socket?.close();
+    }, staleMs / 3);
+  }
+
+  return {
+    setSubscriptions: (subscriptions: MarketStreamSubscriptions) => {
+      // Give fresh subscriptions time to deliver before the stale check counts
+      if (wanted.size === 0) lastMessageAt = Date.now();
+      wanted = streamNames(subscriptions);
+      sync();
+    },
+
+    isConnected: () => connected,
+
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (staleTimer) clearInterval(staleTimer);
+      const ws = socket;
+      socket = null;
+      setConnected(false);
+      ws?.close();
+    }
+  };
+};
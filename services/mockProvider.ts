@@ -0,0 +1,79 @@
+import { Coin, DataPoint, MarketProviderId } from '../types';
+import { candleStart, KLINE_INTERVAL_MS } from './candles';
+import { HistoryRequest, MarketDataProvider } from './marketData';
+import { createRandom, seedFromString } from './simulationEngine';
+
+const MINUTE = 60000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Slow waves of the log price: period and amplitude */
+const WAVES = [
+  { period: 7 * DAY, amplitude: 0.06 },
+  { period: DAY, amplitude: 0.02 },
+  { period: 6 * HOUR, amplitude: 0.008 },
+  { period: HOUR, amplitude: 0.003 }
+];
+
+/** Spacing and amplitude of the interpolated noise on top */
+const NOISE_STEP_MS = 20000;
+const NOISE_AMPLITUDE = 0.0015;
+
+/** Prices sampled per candle for its high and low */
+const CANDLE_SAMPLES = 6;
+
+// Uniform in [0, 1) for a (seed, knot) pair, the same on every call
+const hash = (seed: number, knot: number) => createRandom(seed ^ Math.imul(knot, 0x9E3779B1))();
+
+/**
+ * Price of a coin as a pure function of time: seeded waves around the coin's
+ * base price plus noise. Any range can be asked for in any order and always
+ * comes out the same, so pages, intervals and reloads agree with each other.
+ */
+export const mockPriceAt = (coin: Coin, time: number): number => {
+  const seed = seedFromString(coin.id);
+  let log = 0;
+  WAVES.forEach(({ period, amplitude }, i) => {
+    log += amplitude * Math.sin((2 * Math.PI * time) / period + hash(seed, -1 - i) * 2 * Math.PI);
+  });
+  const knot = Math.floor(time / NOISE_STEP_MS);
+  const t = time / NOISE_STEP_MS - knot;
+  const noise = hash(seed, knot) * (1 - t) + hash(seed, knot + 1) * t;
+  return coin.basePrice * Math.exp(log + (noise - 0.5) * 2 * NOISE_AMPLITUDE);
+};
+
+const mockCandle = (coin: Coin, time: number, intervalMs: number, now: number): DataPoint => {
+  const end = Math.min(time + intervalMs, now);
+  const prices: number[] = [];
+  for (let i = 0; i <= CANDLE_SAMPLES; i++) prices.push(mockPriceAt(coin, time + ((end - time) * i) / CANDLE_SAMPLES));
+  const close = prices[prices.length - 1];
+  // About $100k traded a minute, give or take half
+  const quoteVolume = 100000 * (0.5 + hash(seedFromString(coin.id), Math.floor(time / MINUTE))) * ((end - time) / MINUTE);
+  return {
+    time,
+    price: close,
+    open: prices[0],
+    high: Math.max(...prices),
+    low: Math.min(...prices),
+    volume: quoteVolume / close,
+    isSimulation: false
+  };
+};
+
+/** Deterministic offline data; also the fallback when the chosen source fails */
+export const createMockProvider = (): MarketDataProvider => ({
+  id: MarketProviderId.MOCK,
+  label: 'Демо',
+  pair: coin => coin.symbol.toUpperCase(),
+
+  getHistory: async (coin: Coin, { interval, limit, endTime }: HistoryRequest): Promise<DataPoint[]> => {
+    const now = Date.now();
+    const intervalMs = KLINE_INTERVAL_MS[interval];
+    const last = candleStart(Math.min(endTime ?? now, now), intervalMs);
+    const points: DataPoint[] = [];
+    for (let i = limit - 1; i >= 0; i--) points.push(mockCandle(coin, last - i * intervalMs, intervalMs, now));
+    return points;
+  },
+
+  getPrice: async (coin: Coin): Promise<number | null> => mockPriceAt(coin, Date.now())
+});
@@ -0,0 +1,153 @@
+import { Easing, PathModel, PathModelParams, PresetKeyframe, ScenarioPreset, SimulationDraft, Volatility } from '../types';
+
+const MIN = 60 * 1000;
+
+export const BUILT_IN_PRESETS: ScenarioPreset[] = [
+  {
+    id: 'flash-crash',
+    name: 'Флэш-крэш −15% и восстановление',
+    builtIn: true,
+    volatility: Volatility.HIGH,
+    model: PathModel.JUMP,
+    keyframes: [
+      { offsetMs: 2 * MIN, change: -15, volatility: Volatility.HIGH, easing: Easing.EASE_IN },
+      { offsetMs: 5 * MIN, change: -12, volatility: Volatility.HIGH, easing: Easing.EASE_OUT },
+      { offsetMs: 30 * MIN, change: -1, volatility: Volatility.MEDIUM, easing: Easing.EASE_IN_OUT }
+    ]
+  },
+  {
+    id: 'breakout',
+    name: 'Пробой +8%',
+    builtIn: true,
+    volatility: Volatility.MEDIUM,
+    model: PathModel.CLASSIC,
+    keyframes: [
+      { offsetMs: 5 * MIN, change: 1, volatility: Volatility.LOW, easing: Easing.LINEAR },
+      { offsetMs: 12 * MIN, change: 8, volatility: Volatility.HIGH, easing: Easing.EASE_IN },
+      { offsetMs: 30 * MIN, change: 7, volatility: Volatility.MEDIUM, easing: Easing.EASE_OUT }
+    ]
+  },
+  {
+    id: 'sideways',
+    name: 'Боковик ±1%',
+    builtIn: true,
+    volatility: Volatility.MEDIUM,
+    model: PathModel.OU,
+    keyframes: [
+      { offsetMs: 6 * MIN, change: 1, volatility: Volatility.MEDIUM, easing: Easing.EASE_IN_OUT },
+      { offsetMs: 12 * MIN, change: -1, volatility: Volatility.MEDIUM, easing: Easing.EASE_IN_OUT },
+      { offsetMs: 18 * MIN, change: 0.8, volatility: Volatility.MEDIUM, easing: Easing.EASE_IN_OUT },
+      { offsetMs: 24 * MIN, change: -0.8, volatility: Volatility.MEDIUM, easing: Easing.EASE_IN_OUT },
+      { offsetMs: 30 * MIN, change: 0, volatility: Volatility.MEDIUM, easing: Easing.EASE_IN_OUT }
+    ]
+  },
+  {
+    id: 'slow-bleed',
+    name: 'Медленное стравливание −6%',
+    builtIn: true,
+    volatility: Volatility.LOW,
+    model: PathModel.GBM,
+    keyframes: [
+      { offsetMs: 120 * MIN, change: -6, volatility: Volatility.LOW, easing: Easing.LINEAR }
+    ]
+  },
+  {
+    id: 'pump-dump',
+    name: 'Памп +20% и дамп',
+    builtIn: true,
+    volatility: Volatility.HIGH,
+    model: PathModel.BRIDGE,
+    keyframes: [
+      { offsetMs: 10 * MIN, change: 20, volatility: Volatility.HIGH, easing: Easing.EASE_IN },
+      { offsetMs: 40 * MIN, change: 20, volatility: Volatility.LOW, easing: Easing.LINEAR },
+      { offsetMs: 50 * MIN, change: 0, volatility: Volatility.HIGH, easing: Easing.EASE_IN }
+    ]
+  }
+];
+
+/**
+ * Price a preset against the current market price
+ */
+export const presetToDraft = (preset: ScenarioPreset, currentPrice: number): SimulationDraft => ({
+  keyframes: preset.keyframes.map(k => ({
+    offsetMs: k.offsetMs,
+    price: currentPrice * (1 + k.change / 100),
+    volatility: k.volatility,
+    easing: k.easing
+  })),
+  volatility: preset.volatility,
+  model: preset.model,
+  modelParams: preset.modelParams ?? {}
+});
+
+/**
+ * Turn a draft into a reusable preset, relative to the price it was built against
+ */
+export const draftToPreset = (draft: SimulationDraft, currentPrice: number, name: string): ScenarioPreset => ({
+  id: `user-${Date.now().toString(36)}`,
+  name,
+  volatility: draft.volatility,
+  model: draft.model,
+  modelParams: draft.modelParams,
+  keyframes: draft.keyframes.map(k => ({
+    offsetMs: k.offsetMs,
+    change: Number((((k.price - currentPrice) / currentPrice) * 100).toFixed(4)),
+    volatility: k.volatility,
+    easing: k.easing
+  }))
+});
+
+export const exportPresets = (presets: ScenarioPreset[]): string =>
+  JSON.stringify({ version: 1, presets: presets.map(({ builtIn, ...preset }) => preset) }, null, 2);
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+const parseKeyframe = (raw: any, index: number): PresetKeyframe => {
+  const offsetMs = Number(raw?.offsetMs);
+  const change = Number(raw?.change);
+  if (!Number.isFinite(offsetMs) || offsetMs <= 0) throw new Error(`Точка ${index + 1}: неверное время`);
+  if (!Number.isFinite(change) || change <= -100) throw new Error(`Точка ${index + 1}: неверное изменение`);
+  return {
+    offsetMs,
+    change,
+    volatility: isOneOf(Volatility, raw.volatility) ? raw.volatility : Volatility.MEDIUM,
+    easing: isOneOf(Easing, raw.easing) ? raw.easing : Easing.LINEAR
+  };
+};
+
+const MODEL_PARAM_KEYS: (keyof PathModelParams)[] = ['sigma', 'meanReversion', 'jumpsPerHour', 'jumpSize'];
+
+const parseModelParams = (raw: any): PathModelParams => {
+  const params: PathModelParams = {};
+  MODEL_PARAM_KEYS.forEach(key => {
+    const value = Number(raw?.[key]);
+    if (raw?.[key] != null && Number.isFinite(value) && value >= 0) params[key] = value;
+  });
+  return params;
+};
+
+/**
+ * Parse an exported preset file. Accepts the export envelope or a bare array.
+ * Imported presets get fresh ids so they never clash with existing ones.
+ */
+export const parsePresets = (json: string): ScenarioPreset[] => {
+  const data = JSON.parse(json);
+  const list: any[] = Array.isArray(data) ? data : data?.presets;
+  if (!Array.isArray(list)) throw new Error('Файл не содержит пресетов');
+
+  return list.map((raw, i) => {
+    if (typeof raw?.name !== 'string' || !raw.name.trim()) throw new Error(`Пресет ${i + 1}: нет названия`);
+    if (!Array.isArray(raw.keyframes) || raw.keyframes.length === 0) throw new Error(`«${raw.name}»: нет точек`);
+
+    const keyframes = raw.keyframes.map(parseKeyframe).sort((a: PresetKeyframe, b: PresetKeyframe) => a.offsetMs - b.offsetMs);
+    return {
+      id: `user-${Date.now().toString(36)}-${i}`,
+      name: raw.name.trim(),
+      volatility: isOneOf(Volatility, raw.volatility) ? raw.volatility : Volatility.MEDIUM,
+      model: isOneOf(PathModel, raw.model) ? raw.model : PathModel.CLASSIC,
+      modelParams: parseModelParams(raw.modelParams),
+      keyframes
+    };
+  });
+};
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { Coin, DataPoint, MarketFixture } from '../types';
+import { createReplayProvider } from './replayProvider';
+
+const MINUTE = 60_000;
+const STARTED_AT = 10 * MINUTE;
+const NOW = 100 * MINUTE;
+
+const BTC: Coin = { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin', color: '#f7931a', basePrice: 100 };
+
+const kline = (minute: number): DataPoint => {
+  const price = 100 + minute;
+  return { time: minute * MINUTE, price, open: price - 0.5, high: price + 1, low: price - 1, volume: 1, isSimulation: false };
+};
+
+/** Twenty 1m BTC klines around a recording that starts at minute 10, plus a few stream events */
+const fixture = (): MarketFixture => ({
+  version: 1,
+  startedAt: STARTED_AT,
+  endedAt: STARTED_AT + 10 * MINUTE,
+  klines: { BTC: { '1m': Array.from({ length: 20 }, (_, minute) => kline(minute)) } },
+  events: [
+    { type: 'kline', symbol: 'BTC', time: STARTED_AT + 20_000, kline: { ...kline(10), price: 111 }, closed: false },
+    { type: 'price', symbol: 'BTC', time: STARTED_AT + 30_000, price: 200 },
+    { type: 'price', symbol: 'BTC', time: STARTED_AT + 100_000, price: 210 }
+  ]
+});
+
+const provider = (speed = 2) => createReplayProvider({ fixture: async () => fixture(), speed });
+
+// Lets the fixture loader settle without moving the mocked clock
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createReplayProvider', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['Date', 'setInterval'], now: NOW }));
+  afterEach(() => mock.timers.reset());
+
+  it('shifts the klines before the recording start to end now', async () => {
+    const history = await provider().getHistory(BTC, { interval: '1m', limit: 3 });
+    assert.deepEqual(history.map(p => p.time), [NOW - 2 * MINUTE, NOW - MINUTE, NOW]);
+    assert.deepEqual(history.map(p => p.price), [108, 109, 110]);
+  });
+
+  it('pages back from an end time given in real time', async () => {
+    const history = await provider().getHistory(BTC, { interval: '1m', limit: 2, endTime: NOW - 4 * MINUTE });
+    assert.deepEqual(history.map(p => p.price), [105, 106]);
+    assert.deepEqual(history.map(p => p.time), [NOW - 5 * MINUTE, NOW - 4 * MINUTE]);
+  });
+
+  it('holds back klines recorded after the start until they have played through', async () => {
+    const replay = provider();
+    const last = async () => (await replay.getHistory(BTC, { interval: '1m', limit: 1 }))[0];
+    assert.equal((await last()).price, 110);
+
+    // The minute-11 kline closes 2 recorded minutes in: one real minute at speed 2
+    mock.timers.tick(MINUTE - 1);
+    assert.equal((await last()).price, 110);
+    mock.timers.tick(1);
+    const played = await last();
+    assert.equal(played.price, 111);
+    assert.equal(played.time, NOW + MINUTE / 2);
+  });
+
+  it('plays the recorded pace at the given speed', async () => {
+    const slow = provider(1);
+    const fast = provider(4);
+    assert.equal(await slow.getPrice(BTC), 110);
+    assert.equal(await fast.getPrice(BTC), 110);
+
+    mock.timers.tick(15_000);
+    assert.equal(await slow.getPrice(BTC), 110);
+    assert.equal(await fast.getPrice(BTC), 200);
+    mock.timers.tick(15_000);
+    assert.equal(await slow.getPrice(BTC), 200);
+    assert.equal(await fast.getPrice(BTC), 210);
+  });
+
+  it('merges a coarser interval up from the finest one recorded', async () => {
+    const history = await provider().getHistory(BTC, { interval: '5m', limit: 10 });
+    assert.deepEqual(history.map(p => p.time), [NOW - 10 * MINUTE, NOW - 5 * MINUTE, NOW]);
+    const [first] = history;
+    assert.deepEqual(
+      [first.open, first.high, first.low, first.price, first.volume],
+      [99.5, 105, 99, 104, 5]
+    );
+  });
+
+  it('rejects a coin the fixture has no klines for', async () => {
+    const ETH: Coin = { ...BTC, id: 'ethereum', symbol: 'ETH' };
+    await assert.rejects(provider().getHistory(ETH, { interval: '1m', limit: 1 }), /No 1m klines recorded for ETH/);
+  });
+
+  it('streams the subscribed events at their shifted times', async () => {
+    const prices: [string, number, number][] = [];
+    const klines: [number, number, boolean][] = [];
+    const connections: boolean[] = [];
+    const stream = provider().createStream!({
+      onPrice: (symbol, price, time) => prices.push([symbol, price, time]),
+      onKline: (_, point, closed) => klines.push([point.time, point.price, closed]),
+      onConnectionChange: connected => connections.push(connected)
+    });
+    stream.setSubscriptions({ tickers: [], trades: ['BTC'], klines: ['BTC'] });
+    await settle();
+    assert.equal(stream.isConnected(), true);
+
+    mock.timers.tick(20_000);
+    assert.deepEqual(klines, [[NOW, 111, false]]);
+    assert.deepEqual(prices, [['BTC', 200, NOW + 15_000]]);
+
+    stream.setSubscriptions({ tickers: [], trades: [], klines: [] });
+    mock.timers.tick(60_000);
+    assert.equal(prices.length, 1);
+
+    stream.close();
+    assert.deepEqual(connections, [true, false]);
+  });
+});
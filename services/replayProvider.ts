@@ -0,0 +1,168 @@
+import { Coin, DataPoint, KlineInterval, MarketFixture, MarketFixtureEvent, MarketProviderId } from '../types';
+import { KLINE_INTERVAL_MS } from './candles';
+import { aggregateKlines, HistoryRequest, MarketDataProvider, pageOf } from './marketData';
+import { MarketStream, MarketStreamHandlers, MarketStreamSubscriptions } from './marketStream';
+import { upperBound } from './series';
+
+export const DEFAULT_FIXTURE_URL = '/market-data/fixture.json';
+
+/** How often the replay stream delivers the events that came due */
+const REPLAY_STEP_MS = 100;
+
+export interface ReplayOptions {
+  /** Fixture URL, or a loader (the runner reads it from disk) */
+  fixture?: string | (() => Promise<MarketFixture>);
+  /** Recorded seconds played per real second */
+  speed?: number;
+}
+
+interface Replay {
+  fixture: MarketFixture;
+  /** Real time the replay started, which stands in for the recording start */
+  startWall: number;
+  eventsBySymbol: Map<string, MarketFixtureEvent[]>;
+}
+
+const loadFixture = async (source: string): Promise<MarketFixture> => {
+  const response = await fetch(source);
+  if (!response.ok) throw new Error(`${source}: ${response.status}`);
+  return response.json();
+};
+
+/**
+ * Plays a recorded MarketFixture back as if it were live: the recording start
+ * is mapped to the moment the replay starts, klines before it keep their
+ * spacing, and events after it come at `speed` times their recorded pace.
+ * When the events run out the last prices hold.
+ */
+export const createReplayProvider = ({ fixture = DEFAULT_FIXTURE_URL, speed = 1 }: ReplayOptions = {}): MarketDataProvider => {
+  let replay: Promise<Replay> | null = null;
+
+  const load = (): Promise<Replay> => {
+    if (!replay) {
+      replay = (typeof fixture === 'string' ? loadFixture(fixture) : fixture()).then(data => {
+        const eventsBySymbol = new Map<string, MarketFixtureEvent[]>();
+        data.events.forEach(event => {
+          if (!eventsBySymbol.has(event.symbol)) eventsBySymbol.set(event.symbol, []);
+          eventsBySymbol.get(event.symbol)!.push(event);
+        });
+        return { fixture: data, startWall: Date.now(), eventsBySymbol };
+      });
+      // A missing fixture is asked for again next time
+      replay.catch(() => {
+        replay = null;
+      });
+    }
+    return replay;
+  };
+
+  // Recorded time reached by now
+  const recordedNow = ({ fixture: { startedAt, endedAt }, startWall }: Replay) =>
+    Math.min(endedAt, startedAt + (Date.now() - startWall) * speed);
+
+  // Recorded time -> real time of this replay
+  const toWall = ({ fixture: { startedAt }, startWall }: Replay, time: number) =>
+    time <= startedAt ? startWall + (time - startedAt) : startWall + (time - startedAt) / speed;
+
+  const toRecorded = ({ fixture: { startedAt }, startWall }: Replay, time: number) =>
+    time <= startWall ? startedAt + (time - startWall) : startedAt + (time - startWall) * speed;
+
+  const shiftKline = (state: Replay, kline: DataPoint): DataPoint => ({ ...kline, time: toWall(state, kline.time) });
+
+  // Recorded klines of the interval, or of the coarsest finer one merged up
+  const klinesFor = (state: Replay, symbol: string, interval: KlineInterval): DataPoint[] => {
+    const byInterval = state.fixture.klines[symbol] ?? {};
+    if (byInterval[interval]?.length) return byInterval[interval]!;
+    const intervalMs = KLINE_INTERVAL_MS[interval];
+    const finer = (Object.keys(byInterval) as KlineInterval[])
+      .filter(i => KLINE_INTERVAL_MS[i] < intervalMs && intervalMs % KLINE_INTERVAL_MS[i] === 0 && byInterval[i]!.length > 0)
+      .sort((a, b) => KLINE_INTERVAL_MS[b] - KLINE_INTERVAL_MS[a])[0];
+    if (!finer) throw new Error(`No ${interval} klines recorded for ${symbol}`);
+    return aggregateKlines(byInterval[finer]!, interval);
+  };
+
+  const lastPrice = (state: Replay, symbol: string): number | null => {
+    const events = state.eventsBySymbol.get(symbol) ?? [];
+    const played = upperBound(events, recordedNow(state));
+    if (played > 0) {
+      const event = events[played - 1];
+      return event.type === 'price' ? event.price : event.kline.price;
+    }
+    // Nothing played yet: the close at the recording start
+    const byInterval = Object.values(state.fixture.klines[symbol] ?? {});
+    const closes = byInterval
+      .map(points => points?.filter(p => p.time <= state.fixture.startedAt).pop())
+      .filter((p): p is DataPoint => !!p)
+      .sort((a, b) => a.time - b.time);
+    return closes[closes.length - 1]?.price ?? null;
+  };
+
+  const createStream = (handlers: MarketStreamHandlers): MarketStream => {
+    let wanted: MarketStreamSubscriptions = { tickers: [], trades: [], klines: [] };
+    let state: Replay | null = null;
+    let playedUntil = 0;
+    let closed = false;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const step = () => {
+      if (!state) return;
+      const until = recordedNow(state);
+      const { events } = state.fixture;
+      const prices = new Set([...wanted.tickers, ...wanted.trades]);
+      const klines = new Set(wanted.klines);
+      for (let i = upperBound(events, playedUntil); i < events.length && events[i].time <= until; i++) {
+        const event = events[i];
+        if (event.type === 'price' && prices.has(event.symbol)) {
+          handlers.onPrice(event.symbol, event.price, toWall(state, event.time));
+        } else if (event.type === 'kline' && klines.has(event.symbol)) {
+          handlers.onKline?.(event.symbol, shiftKline(state, event.kline), event.closed);
+        }
+      }
+      playedUntil = until;
+    };
+
+    load().then(loaded => {
+      if (closed) return;
+      state = loaded;
+      playedUntil = recordedNow(loaded);
+      timer = setInterval(step, REPLAY_STEP_MS);
+      handlers.onConnectionChange?.(true);
+    }, () => {
+      // No fixture: stays disconnected and callers poll (and fall back to mock data)
+    });
+
+    return {
+      setSubscriptions: (subscriptions: MarketStreamSubscriptions) => {
+        wanted = subscriptions;
+      },
+      isConnected: () => state !== null && !closed,
+      close: () => {
+        if (closed) return;
+        closed = true;
+        if (timer) clearInterval(timer);
+        if (state) handlers.onConnectionChange?.(false);
+      }
+    };
+  };
+
+  return {
+    id: MarketProviderId.REPLAY,
+    label: 'Повтор',
+    pair: coin => coin.symbol.toUpperCase(),
+
+    getHistory: async (coin: Coin, request: HistoryRequest): Promise<DataPoint[]> => {
+      const state = await load();
+      const intervalMs = KLINE_INTERVAL_MS[request.interval];
+      const until = recordedNow(state);
+      // Klines recorded after the start only once the replay has played them through
+      const closedKlines = klinesFor(state, coin.symbol, request.interval)
+        .filter(p => p.time <= state.fixture.startedAt || p.time + intervalMs <= until);
+      const endTime = request.endTime != null ? toRecorded(state, request.endTime) : undefined;
+      return pageOf(closedKlines, { ...request, endTime }).map(kline => shiftKline(state, kline));
+    },
+
+    getPrice: async (coin: Coin): Promise<number | null> => lastPrice(await load(), coin.symbol),
+
+    createStream
+  };
+};
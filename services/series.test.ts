@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DataPoint, IndicatorType } from '../types';
+import { mergeCandles } from './candles';
+import { createIndicator, createIndicatorEngine } from './indicators';
+import { appendPoints, lowerBound, lttb, peaksOf, reduceRuns, sliceByTime, upperBound } from './series';
+
+const point = (time: number, price = 100): DataPoint => ({ time, price, isSimulation: false });
+
+const walk = (count: number, stepMs = 1000): DataPoint[] => {
+  let price = 100;
+  return Array.from({ length: count }, (_, i) => {
+    price += Math.sin(i / 7) + (i % 3) - 1;
+    return point(i * stepMs, price);
+  });
+};
+
+describe('lowerBound / upperBound', () => {
+  const points = [point(1), point(2), point(2), point(4)];
+
+  it('find the first point at or after, and after, a time', () => {
+    assert.equal(lowerBound(points, 2), 1);
+    assert.equal(upperBound(points, 2), 3);
+    assert.equal(lowerBound(points, 3), 3);
+    assert.equal(upperBound(points, 0), 0);
+    assert.equal(lowerBound(points, 5), 4);
+  });
+
+  it('slice the points of a time range', () => {
+    assert.deepEqual(sliceByTime(points, 2, 3).map(p => p.time), [2, 2]);
+  });
+});
+
+describe('peaksOf', () => {
+  it('keeps the heaviest item of each bucket', () => {
+    assert.deepEqual(peaksOf([1, 5, 2, 2, 9, 3], 3, x => x), [5, 2, 9]);
+  });
+
+  it('returns short input as is', () => {
+    const items = [1, 2];
+    assert.equal(peaksOf(items, 5, x => x), items);
+  });
+});
+
+describe('reduceRuns', () => {
+  it('splits indexes into at most threshold equal runs', () => {
+    assert.deepEqual(reduceRuns(10, 4, (from, to) => [from, to]), [[0, 2], [2, 5], [5, 7], [7, 10]]);
+  });
+
+  it('keeps every index its own run when they fit', () => {
+    assert.deepEqual(reduceRuns(3, 5, from => from), [0, 1, 2]);
+    assert.deepEqual(reduceRuns(0, 5, from => from), []);
+  });
+});
+
+describe('lttb', () => {
+  it('keeps the threshold, first and last point', () => {
+    const points = walk(1000);
+    const sampled = lttb(points, 100);
+    assert.equal(sampled.length, 100);
+    assert.equal(sampled[0], points[0]);
+    assert.equal(sampled[99], points[999]);
+  });
+});
+
+describe('appendPoints', () => {
+  it('appends in place and keeps at least the newest max', () => {
+    const series = walk(10);
+    const result = appendPoints(series, [point(10_000), point(11_000)], 8);
+    assert.equal(result, series);
+    assert.equal(series.length, 8);
+    assert.equal(series[series.length - 1].time, 11_000);
+  });
+
+  it('trims in chunks rather than on every append', () => {
+    const series = walk(80);
+    appendPoints(series, [point(80_000)], 80);
+    assert.equal(series.length, 81);
+    for (let i = 81; i <= 90; i++) appendPoints(series, [point(i * 1000)], 80);
+    assert.equal(series.length, 80);
+    assert.equal(series[0].time, 11_000);
+  });
+
+  // What the chart does per tick, zoomed all the way out: append, follow the
+  // head with the indicators, cut the viewport and bring it down to the pixels
+  it('keeps what a 100k-point chart draws bounded by the sample size', () => {
+    const max = 100_000;
+    const sampleSize = 2000;
+    const series = walk(max);
+    const engine = createIndicatorEngine(
+      [createIndicator(IndicatorType.SMA), createIndicator(IndicatorType.BOLLINGER), createIndicator(IndicatorType.MACD)],
+      1000
+    );
+    engine.update(series);
+
+    for (let i = 0; i < 60; i++) {
+      const time = series[series.length - 1].time + 1000;
+      appendPoints(series, [point(time, 100 + (i % 10))], max);
+      const { candles } = engine.update(series);
+      const visible = sliceByTime(series, series[0].time, time);
+      const line = lttb(visible, sampleSize);
+      const merged = reduceRuns(candles.length, sampleSize, (from, to) => mergeCandles(candles, from, to));
+
+      assert.ok(candles.length >= max);
+      assert.equal(line.length, sampleSize);
+      assert.equal(merged.length, sampleSize);
+      assert.equal(merged[merged.length - 1].close, candles[candles.length - 1].close);
+      assert.equal(merged[merged.length - 1].time <= time, true);
+    }
+    assert.ok(series.length >= max);
+  });
+});
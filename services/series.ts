@@ -0,0 +1,129 @@
+import { DataPoint } from '../types';
+
+/**
+ * Helpers for long, time-sorted point series: viewport lookups by binary
+ * search and downsampling to the pixel width of the chart.
+ */
+
+/** Index of the first point at or after `time` (length when there is none) */
+export const lowerBound = (points: { time: number }[], time: number): number => {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (points[mid].time < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/** Index after the last point at or before `time` */
+export const upperBound = (points: { time: number }[], time: number): number => {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (points[mid].time <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/** Points with `from <= time <= to` */
+export const sliceByTime = <T extends { time: number }>(points: T[], from: number, to: number): T[] =>
+  points.slice(lowerBound(points, from), upperBound(points, to));
+
+/**
+ * Largest-Triangle-Three-Buckets: keeps `threshold` points (first and last
+ * included) that preserve the visual shape of the price line. Returns the
+ * original objects, so flags like isSimulation survive.
+ */
+export const lttb = (points: DataPoint[], threshold: number): DataPoint[] => {
+  const length = points.length;
+  if (threshold >= length || threshold < 3) return points;
+
+  const sampled: DataPoint[] = [points[0]];
+  const bucketSize = (length - 2) / (threshold - 2);
+  let a = 0;
+
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket is the third vertex of the triangle
+    const nextStart = Math.floor((i + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(length, Math.floor((i + 2) * bucketSize) + 1);
+    let avgTime = 0;
+    let avgPrice = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgTime += points[j].time;
+      avgPrice += points[j].price;
+    }
+    const nextCount = nextEnd - nextStart;
+    avgTime /= nextCount;
+    avgPrice /= nextCount;
+
+    const start = Math.floor(i * bucketSize) + 1;
+    const end = Math.floor((i + 1) * bucketSize) + 1;
+    const pointA = points[a];
+    let maxArea = -1;
+    let next = start;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs(
+        (pointA.time - avgTime) * (points[j].price - pointA.price) -
+        (pointA.time - points[j].time) * (avgPrice - pointA.price)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        next = j;
+      }
+    }
+    sampled.push(points[next]);
+    a = next;
+  }
+
+  sampled.push(points[length - 1]);
+  return sampled;
+};
+
+/**
+ * At most `threshold` items, one per run of equal length: the one with the
+ * largest `weight`, so spikes (volume bursts, wide candles) stay visible.
+ */
+export const peaksOf = <T>(items: T[], threshold: number, weight: (item: T) => number): T[] => {
+  const length = items.length;
+  if (threshold >= length || threshold < 1) return items;
+  const sampled: T[] = [];
+  const bucketSize = length / threshold;
+  for (let i = 0; i < threshold; i++) {
+    const end = Math.floor((i + 1) * bucketSize);
+    let best = Math.floor(i * bucketSize);
+    for (let j = best + 1; j < end; j++) {
+      if (weight(items[j]) > weight(items[best])) best = j;
+    }
+    sampled.push(items[best]);
+  }
+  return sampled;
+};
+
+/**
+ * `reduce(from, to)` of at most `threshold` runs of consecutive indexes below
+ * `length`, equally long; each index is a run of its own when they fit.
+ */
+export const reduceRuns = <R>(length: number, threshold: number, reduce: (from: number, to: number) => R): R[] => {
+  const runs = Math.min(length, Math.max(1, threshold));
+  const result: R[] = [];
+  for (let i = 0; i < runs; i++) {
+    result.push(reduce(Math.floor((i * length) / runs), Math.floor(((i + 1) * length) / runs)));
+  }
+  return result;
+};
+
+/**
+ * Appends `points` to `series` in place and returns it. The oldest points go
+ * in chunks once the series is an eighth over `max`, so an append costs O(1)
+ * amortised rather than a copy of the whole series. The array keeps its
+ * identity: state holding it needs a version bumped next to it.
+ */
+export const appendPoints = <T>(series: T[], points: T[], max: number): T[] => {
+  for (const point of points) series.push(point);
+  if (series.length > max + Math.ceil(max / 8)) series.splice(0, series.length - max);
+  return series;
+};
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Easing, PauseMode, SimulationConfig, Volatility } from '../types';
+import {
+  extendSimulation,
+  getEffectiveElapsed,
+  getProjectedEndTime,
+  pauseSimulation,
+  resumeSimulation,
+  retargetSimulation,
+  setSimulationVolatility
+} from './simulationCommands';
+import { buildSegments, createSimulationEngine } from './simulationEngine';
+
+const MINUTE = 60 * 1000;
+
+const simulation = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+  id: 'sim-test',
+  active: true,
+  coinId: 'bitcoin',
+  startPrice: 100,
+  targetPrice: 120,
+  startTime: 0,
+  durationMs: 10 * MINUTE,
+  endTime: 10 * MINUTE,
+  volatility: Volatility.MEDIUM,
+  keyframes: [
+    { offsetMs: 4 * MINUTE, price: 90, volatility: Volatility.LOW, easing: Easing.LINEAR },
+    { offsetMs: 10 * MINUTE, price: 120, volatility: Volatility.MEDIUM, easing: Easing.EASE_OUT }
+  ],
+  createdAt: 0,
+  ...overrides
+});
+
+describe('pause and resume', () => {
+  it('push the end back by the time spent paused', () => {
+    const paused = pauseSimulation(simulation(), 2 * MINUTE, PauseMode.FREEZE);
+    assert.equal(getEffectiveElapsed(paused, 5 * MINUTE), 2 * MINUTE);
+    assert.equal(getProjectedEndTime(paused, 5 * MINUTE), 13 * MINUTE);
+
+    const resumed = resumeSimulation(paused, 5 * MINUTE);
+    assert.equal(resumed.pausedAt, undefined);
+    assert.equal(resumed.pausedMs, 3 * MINUTE);
+    assert.equal(resumed.endTime, 13 * MINUTE);
+    assert.equal(getEffectiveElapsed(resumed, 6 * MINUTE), 3 * MINUTE);
+  });
+
+  it('adds up several pauses', () => {
+    let config = simulation();
+    config = resumeSimulation(pauseSimulation(config, MINUTE, PauseMode.DRIFT), 2 * MINUTE);
+    config = resumeSimulation(pauseSimulation(config, 3 * MINUTE, PauseMode.FREEZE), 5 * MINUTE);
+    assert.equal(config.pausedMs, 3 * MINUTE);
+    assert.equal(config.endTime, 13 * MINUTE);
+  });
+
+  it('freeze the price, and the engine lands on the keyframes later', () => {
+    const config = simulation();
+    const engine = createSimulationEngine(config, { seed: 1 });
+    engine.catchUp(2 * MINUTE);
+    const pausedPrice = engine.last.price;
+
+    engine.update(pauseSimulation(config, 2 * MINUTE, PauseMode.FREEZE));
+    assert.ok(engine.catchUp(5 * MINUTE).every(p => p.price === pausedPrice));
+
+    engine.update(resumeSimulation(pauseSimulation(config, 2 * MINUTE, PauseMode.FREEZE), 5 * MINUTE));
+    const points = engine.catchUp(13 * MINUTE);
+    assert.equal(points[points.length - 1].time, 13 * MINUTE);
+    assert.ok(engine.finished);
+  });
+});
+
+describe('extend and retarget', () => {
+  it('extend only the final segment', () => {
+    const extended = extendSimulation(simulation(), 5 * MINUTE);
+    assert.equal(extended.durationMs, 15 * MINUTE);
+    assert.equal(extended.endTime, 15 * MINUTE);
+    assert.deepEqual(
+      buildSegments(extended).map(s => [s.startTime, s.endTime, s.endPrice]),
+      [[0, 4 * MINUTE, 90], [4 * MINUTE, 15 * MINUTE, 120]]
+    );
+  });
+
+  it('never shorten the final segment past the keyframe before it', () => {
+    const shortened = extendSimulation(simulation(), -20 * MINUTE);
+    assert.equal(shortened.durationMs, 4 * MINUTE + 1000);
+    assert.equal(buildSegments(shortened)[1].endTime, 4 * MINUTE + 1000);
+  });
+
+  it('retarget moves the last keyframe only', () => {
+    const retargeted = retargetSimulation(simulation(), 150);
+    assert.equal(retargeted.targetPrice, 150);
+    assert.deepEqual(buildSegments(retargeted).map(s => s.endPrice), [90, 150]);
+  });
+
+  it('retarget a single-target simulation into one keyframe', () => {
+    const retargeted = retargetSimulation(simulation({ keyframes: undefined }), 80);
+    assert.deepEqual(buildSegments(retargeted).map(s => [s.endTime, s.endPrice]), [[10 * MINUTE, 80]]);
+  });
+
+  it('change the volatility of the keyframes not reached yet', () => {
+    const changed = setSimulationVolatility(simulation(), Volatility.HIGH, 5 * MINUTE);
+    assert.deepEqual(changed.keyframes?.map(k => k.volatility), [Volatility.LOW, Volatility.HIGH]);
+  });
+});
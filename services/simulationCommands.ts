@@ -0,0 +1,107 @@
+import { PauseMode, SimulationConfig, TriggerType, Volatility } from '../types';
+import { getKeyframes, resolveRevertSettings } from './simulationEngine';
+
+/**
+ * Mid-flight edits of a running simulation. Each command is a pure
+ * SimulationConfig -> SimulationConfig transform; callers persist the result
+ * and hand it to the engine via `engine.update`.
+ */
+
+/** Simulation time elapsed at `now` (wall time minus pauses) */
+export const getEffectiveElapsed = (config: SimulationConfig, now: number): number => {
+  const paused = (config.pausedMs ?? 0) + (config.pausedAt != null ? now - config.pausedAt : 0);
+  return Math.max(0, Math.min(config.durationMs, now - config.startTime - paused));
+};
+
+/** Wall-clock end (of the revert, once it started), assuming a running pause is resumed right now */
+export const getProjectedEndTime = (config: SimulationConfig, now: number): number => {
+  if (config.revertStartedAt != null) {
+    return config.revertStartedAt + (config.revert?.holdMs ?? 0) + (config.revert?.durationMs ?? 0);
+  }
+  return config.endTime + (config.pausedAt != null ? Math.max(0, now - config.pausedAt) : 0);
+};
+
+export const pauseSimulation = (config: SimulationConfig, now: number, mode: PauseMode): SimulationConfig => {
+  if (config.pausedAt != null) return { ...config, pauseMode: mode };
+  return { ...config, pausedAt: now, pauseMode: mode };
+};
+
+export const resumeSimulation = (config: SimulationConfig, now: number): SimulationConfig => {
+  if (config.pausedAt == null) return config;
+  const pauseLength = Math.max(0, now - config.pausedAt);
+  return {
+    ...config,
+    pausedAt: undefined,
+    pausedMs: (config.pausedMs ?? 0) + pauseLength,
+    endTime: config.endTime + pauseLength
+  };
+};
+
+/** Push the end back by `extraMs`; only the final segment gets longer */
+export const extendSimulation = (config: SimulationConfig, extraMs: number): SimulationConfig => {
+  const keyframes = getKeyframes(config);
+  const lastIndex = keyframes.length - 1;
+  const minimumOffset = lastIndex > 0 ? keyframes[lastIndex - 1].offsetMs + 1000 : 1000;
+  const offsetMs = Math.max(minimumOffset, keyframes[lastIndex].offsetMs + extraMs);
+  const delta = offsetMs - keyframes[lastIndex].offsetMs;
+
+  return {
+    ...config,
+    keyframes: keyframes.map((k, i) => i === lastIndex ? { ...k, offsetMs } : k),
+    durationMs: config.durationMs + delta,
+    endTime: config.endTime + delta
+  };
+};
+
+/** Move the final destination; intermediate keyframes stay where they are */
+export const retargetSimulation = (config: SimulationConfig, targetPrice: number): SimulationConfig => {
+  const keyframes = getKeyframes(config);
+  const lastIndex = keyframes.length - 1;
+  return {
+    ...config,
+    targetPrice,
+    keyframes: keyframes.map((k, i) => i === lastIndex ? { ...k, price: targetPrice } : k)
+  };
+};
+
+/**
+ * Change volatility for the rest of the run (all keyframes not reached yet).
+ * The base level stays, so an explicit sigma keeps scaling the same way.
+ */
+export const setSimulationVolatility = (config: SimulationConfig, volatility: Volatility, now: number): SimulationConfig => {
+  const elapsed = getEffectiveElapsed(config, now);
+  return {
+    ...config,
+    keyframes: getKeyframes(config).map(k => k.offsetMs > elapsed ? { ...k, volatility } : k)
+  };
+};
+
+/** Whether a pending simulation should start now; price triggers need the real price */
+export const isTriggerMet = (config: SimulationConfig, now: number, realPrice?: number): boolean => {
+  const trigger = config.trigger;
+  if (!trigger) return true;
+  if (trigger.type === TriggerType.TIME) return now >= (trigger.startAt ?? 0);
+  if (!realPrice || trigger.price == null) return false;
+  return trigger.type === TriggerType.PRICE_ABOVE ? realPrice >= trigger.price : realPrice <= trigger.price;
+};
+
+/** Turn a pending simulation into a running one, starting at `now` from `startPrice` */
+export const startScheduledSimulation = (config: SimulationConfig, now: number, startPrice: number): SimulationConfig => ({
+  ...config,
+  pending: false,
+  startPrice,
+  startTime: now,
+  endTime: now + config.durationMs
+});
+
+/**
+ * End the simulated path at `now` (on schedule or stopped early). The price
+ * then holds and heads back to the market; the resolved settings are stored
+ * so whoever runs the revert follows the same plan.
+ */
+export const startRevert = (config: SimulationConfig, now: number, fromPrice: number, livePrice: number): SimulationConfig => ({
+  ...config,
+  pausedAt: undefined,
+  revertStartedAt: now,
+  revert: resolveRevertSettings(config, fromPrice, livePrice)
+});
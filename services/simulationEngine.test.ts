@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DataPoint, Easing, PathModel, RevertCurve, SimulationConfig, Volatility } from '../types';
+import { createRevertEngine, createSimulationEngine, resolveRevertSettings, simulatePath } from './simulationEngine';
+
+const HOUR = 60 * 60 * 1000;
+
+const simulation = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+  id: 'sim-test',
+  active: true,
+  coinId: 'bitcoin',
+  startPrice: 100,
+  targetPrice: 100,
+  startTime: 0,
+  durationMs: HOUR,
+  endTime: HOUR,
+  volatility: Volatility.MEDIUM,
+  createdAt: 0,
+  ...overrides
+});
+
+const prices = (points: DataPoint[]) => points.map(p => p.price);
+
+// Standard deviation of the tick-to-tick log returns
+const returnSpread = (points: DataPoint[]) => {
+  const returns = points.slice(1).map((p, i) => Math.log(p.price / points[i].price));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  return Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length);
+};
+
+describe('simulation engine seeds', () => {
+  it('reproduces the same path from the same seed', () => {
+    const first = [...simulatePath(simulation(), 42)];
+    const second = [...simulatePath(simulation(), 42)];
+    assert.equal(first.length, HOUR / 1000);
+    assert.deepEqual(second, first);
+  });
+
+  it('takes another path with another seed', () => {
+    assert.notDeepEqual(prices([...simulatePath(simulation(), 43)]), prices([...simulatePath(simulation(), 42)]));
+  });
+
+  it('spreads returns wider the higher the volatility', () => {
+    const spreads = [Volatility.LOW, Volatility.MEDIUM, Volatility.HIGH]
+      .map(volatility => returnSpread([...simulatePath(simulation({ volatility }), 42)]));
+    assert.ok(spreads[0] < spreads[1] && spreads[1] < spreads[2], `spreads ${spreads.join(', ')}`);
+  });
+});
+
+describe('path models', () => {
+  it('lands the Brownian bridge exactly on the target at the end', () => {
+    const config = simulation({ model: PathModel.BRIDGE, targetPrice: 137.5, modelParams: { sigma: 20 } });
+    for (const seed of [1, 2, 3]) {
+      // 7s ticks do not divide the hour: the last one is cut short at endTime
+      const points = [...simulatePath(config, seed, 7000)];
+      assert.equal(points[points.length - 1].time, config.endTime);
+      assert.equal(points[points.length - 1].price, 137.5);
+    }
+  });
+
+  it('lands the bridge on every keyframe', () => {
+    const config = simulation({
+      model: PathModel.BRIDGE,
+      targetPrice: 90,
+      keyframes: [
+        { offsetMs: HOUR / 2, price: 120, volatility: Volatility.HIGH, easing: Easing.LINEAR },
+        { offsetMs: HOUR, price: 90, volatility: Volatility.LOW, easing: Easing.EASE_IN }
+      ]
+    });
+    const points = [...simulatePath(config, 5)];
+    assert.equal(points.find(p => p.time === HOUR / 2)?.price, 120);
+    assert.equal(points[points.length - 1].price, 90);
+  });
+
+  it('pulls an Ornstein-Uhlenbeck path back to the curve, where GBM stays off it', () => {
+    const drift = (model: PathModel) => {
+      const config = simulation({ model, durationMs: 2 * HOUR, endTime: 2 * HOUR, modelParams: { sigma: 0.01, meanReversion: 4 } });
+      const engine = createSimulationEngine(config, { seed: 7, from: { time: 0, price: 120, isSimulation: true } });
+      engine.catchUp(HOUR / 2);
+      return Math.log(engine.last.price / 100);
+    };
+    // Half an hour at 4/hour leaves exp(-2) of the gap
+    assert.ok(Math.abs(drift(PathModel.OU) - Math.log(1.2) * Math.exp(-2)) < 0.005);
+    assert.ok(Math.abs(drift(PathModel.GBM) - Math.log(1.2)) < 0.005);
+  });
+
+  it('jumps about as often as configured', () => {
+    const bigMoves = (jumpsPerHour: number) => {
+      const config = simulation({
+        model: PathModel.JUMP,
+        durationMs: 10 * HOUR,
+        endTime: 10 * HOUR,
+        modelParams: { sigma: 0.01, jumpsPerHour, jumpSize: 5 }
+      });
+      const points = [...simulatePath(config, 11)];
+      return points.slice(1).filter((p, i) => Math.abs(Math.log(p.price / points[i].price)) > 0.01).length;
+    };
+    // 5% jumps clear 1% about 84% of the time
+    const frequent = bigMoves(60);
+    assert.ok(frequent > 600 * 0.84 * 0.85 && frequent < 600 * 0.84 * 1.15, `${frequent} big moves`);
+    const rare = bigMoves(6);
+    assert.ok(rare > 60 * 0.84 * 0.6 && rare < 60 * 0.84 * 1.4, `${rare} big moves`);
+  });
+});
+
+describe('catchUp', () => {
+  it('fills a 60s gap with the ticks a running timer would have made', () => {
+    const config = simulation({ model: PathModel.GBM, targetPrice: 105 });
+    const woken = createSimulationEngine(config, { seed: 3 });
+    const ticking = createSimulationEngine(config, { seed: 3 });
+
+    const batch = woken.catchUp(60000);
+    const ticks: DataPoint[] = [];
+    for (let time = 1000; time <= 60000; time += 1000) ticks.push(ticking.step(time)!);
+
+    assert.equal(batch.length, 60);
+    assert.deepEqual(batch.map(p => p.time), ticks.map(p => p.time));
+    assert.ok(batch.every((p, i) => p.time === (i + 1) * 1000));
+    assert.deepEqual(batch, ticks);
+    assert.deepEqual(woken.last, ticking.last);
+  });
+
+  it('folds a tick closer than half a tick into the wake-up time', () => {
+    const engine = createSimulationEngine(simulation(), { seed: 3 });
+    const batch = engine.catchUp(3400);
+    assert.deepEqual(batch.map(p => p.time), [1000, 2000, 3400]);
+  });
+});
+
+describe('revert to market', () => {
+  const MINUTE = 60 * 1000;
+  const from: DataPoint = { time: 0, price: 120, isSimulation: true };
+  const revert = (curve: RevertCurve, holdMs = 0, noise = 1.7) =>
+    createRevertEngine({ holdMs, durationMs: 5 * MINUTE, curve, noise }, 0, from, 9, 1);
+
+  for (const curve of Object.values(RevertCurve)) {
+    it(`ends on the live price after the duration (${curve})`, () => {
+      const engine = revert(curve);
+      const points = engine.catchUp(5 * MINUTE - 1000, 100);
+      assert.equal(engine.finished, false);
+      assert.notEqual(points[points.length - 1].price, 100);
+
+      const [end] = engine.catchUp(5 * MINUTE, 100);
+      assert.equal(end.time, 5 * MINUTE);
+      assert.equal(end.price, 100);
+      assert.equal(engine.finished, true);
+    });
+  }
+
+  it('holds the final price before heading back', () => {
+    const engine = revert(RevertCurve.LINEAR, 2 * MINUTE, 0);
+    assert.ok(engine.catchUp(2 * MINUTE, 100).every(p => p.price === 120));
+    const points = engine.catchUp(7 * MINUTE, 100);
+    assert.ok(points[0].price < 120);
+    assert.equal(points[points.length - 1].time, 7 * MINUTE);
+    assert.equal(points[points.length - 1].price, 100);
+  });
+
+  it('closes most of the gap early on the exponential curve', () => {
+    const gapAt = (curve: RevertCurve) => {
+      const engine = revert(curve, 0, 0);
+      engine.catchUp(75 * 1000, 100);
+      return engine.last.price - 100;
+    };
+    assert.ok(gapAt(RevertCurve.EXPONENTIAL) < gapAt(RevertCurve.LINEAR) / 2);
+  });
+
+  it('takes longer for a larger gap when no duration is set', () => {
+    const config = simulation();
+    const small = resolveRevertSettings(config, 101, 100);
+    const large = resolveRevertSettings(config, 110, 100);
+    assert.ok(small.durationMs < large.durationMs);
+    assert.equal(small.curve, RevertCurve.EXPONENTIAL);
+  });
+});
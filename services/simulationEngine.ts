@@ -0,0 +1,655 @@
+import { CorrelatedFollower, DataPoint, Easing, Keyframe, PathModel, PathModelParams, PauseMode, RevertCurve, RevertSettings, SimulationConfig, Volatility } from '../types';
+
+/** Interval between engine ticks, in ms */
+export const TICK_MS = 1000;
+
+/** Lowest price the engine will ever emit */
+const MIN_PRICE = 0.00000001;
+
+export interface Clock {
+  now: () => number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/** Uniform random source in [0, 1) */
+export type Random = () => number;
+
+/**
+ * Seedable PRNG (mulberry32). The same seed always yields the same sequence.
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Derive a stable numeric seed from any string (e.g. a simulation id)
+ */
+export const seedFromString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+/**
+ * Standard normal sample (Box-Muller) from a uniform source
+ */
+export const gaussian = (random: Random): number => {
+  const u = 1 - random(); // (0, 1], keeps log() finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Poisson sample (Knuth), fine for the small rates of a single tick
+ */
+const poisson = (random: Random, lambda: number): number => {
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const VOLATILITY_MULTIPLIERS: Record<Volatility, number> = {
+  [Volatility.LOW]: 0.0001,
+  [Volatility.MEDIUM]: 0.0005,
+  [Volatility.HIGH]: 0.002
+};
+
+/** Default sigma (% per sqrt(hour)), roughly matching the classic per-tick noise */
+export const DEFAULT_SIGMA: Record<Volatility, number> = {
+  [Volatility.LOW]: 0.4,
+  [Volatility.MEDIUM]: 1.7,
+  [Volatility.HIGH]: 7
+};
+
+export const DEFAULT_JUMPS_PER_HOUR = 6;
+export const DEFAULT_JUMP_SIZE = 2;
+
+/** OU speed that closes ~98% of the gap over the whole simulation */
+export const defaultMeanReversion = (durationMs: number) => 4 / Math.max(durationMs / HOUR_MS, 1 / 60);
+
+export const resolveModelParams = (config: SimulationConfig): Required<PathModelParams> => ({
+  sigma: config.modelParams?.sigma ?? DEFAULT_SIGMA[config.volatility],
+  meanReversion: config.modelParams?.meanReversion ?? defaultMeanReversion(config.durationMs),
+  jumpsPerHour: config.modelParams?.jumpsPerHour ?? DEFAULT_JUMPS_PER_HOUR,
+  jumpSize: config.modelParams?.jumpSize ?? DEFAULT_JUMP_SIZE
+});
+
+const EASINGS: Record<Easing, (u: number) => number> = {
+  [Easing.LINEAR]: (u) => u,
+  [Easing.EASE_IN]: (u) => u * u,
+  [Easing.EASE_OUT]: (u) => 1 - (1 - u) * (1 - u),
+  [Easing.EASE_IN_OUT]: (u) => u * u * (3 - 2 * u)
+};
+
+/**
+ * Keyframes of a simulation. Single-target simulations get one implicit
+ * keyframe at endTime.
+ */
+export const getKeyframes = (config: SimulationConfig): Keyframe[] => {
+  if (config.keyframes && config.keyframes.length > 0) {
+    return [...config.keyframes].sort((a, b) => a.offsetMs - b.offsetMs);
+  }
+  return [{
+    offsetMs: config.durationMs,
+    price: config.targetPrice,
+    volatility: config.volatility,
+    easing: Easing.LINEAR
+  }];
+};
+
+/** Absolute-time span between two consecutive keyframes */
+export interface Segment {
+  startTime: number;
+  endTime: number;
+  startPrice: number;
+  endPrice: number;
+  volatility: Volatility;
+  easing: Easing;
+}
+
+export const buildSegments = (config: SimulationConfig): Segment[] => {
+  let startTime = config.startTime;
+  let startPrice = config.startPrice;
+  return getKeyframes(config)
+    .filter(k => k.offsetMs > 0)
+    .map(k => {
+      const segment: Segment = {
+        startTime,
+        endTime: config.startTime + k.offsetMs,
+        startPrice,
+        endPrice: k.price,
+        volatility: k.volatility,
+        easing: k.easing
+      };
+      startTime = segment.endTime;
+      startPrice = k.price;
+      return segment;
+    });
+};
+
+/** Segment active at `time`, the last one once the scenario is over */
+export const segmentAt = (segments: Segment[], time: number): Segment =>
+  segments.find(s => time < s.endTime) ?? segments[segments.length - 1];
+
+/**
+ * Noise-free scenario curve: where the price "should" be at `time`
+ */
+export const anchorPrice = (segment: Segment, time: number): number => {
+  const span = segment.endTime - segment.startTime;
+  const u = span > 0 ? Math.min(1, Math.max(0, (time - segment.startTime) / span)) : 1;
+  return segment.startPrice + (segment.endPrice - segment.startPrice) * EASINGS[segment.easing](u);
+};
+
+interface StepContext {
+  segment: Segment;
+  params: Required<PathModelParams>;
+  random: Random;
+  price: number;
+  /** Scenario curve at the start and at the end of this step */
+  anchorFrom: number;
+  anchorTo: number;
+  /** Segment volatility, fraction per sqrt(hour) */
+  sigma: number;
+  /** Step length, hours */
+  dt: number;
+  /** Time left until the segment end before this step, hours */
+  remaining: number;
+}
+
+type ModelStep = (ctx: StepContext) => number;
+
+/*
+ * Every model follows the eased keyframe curve ("anchor") and differs only in
+ * how the deviation from it evolves. With a single linear segment this is the
+ * plain start -> target move.
+ */
+const PATH_MODELS: Record<PathModel, ModelStep> = {
+  [PathModel.CLASSIC]: ({ segment, random, price, anchorFrom, anchorTo, dt, remaining }) => {
+    // Follow the curve and close the current gap to it evenly over the ticks left
+    const trendStep = (anchorTo - anchorFrom) - (price - anchorFrom) * Math.min(1, dt / remaining);
+
+    // Noise is calibrated per tick, rescale for uneven steps
+    const volatility = price * VOLATILITY_MULTIPLIERS[segment.volatility] * Math.sqrt((dt * HOUR_MS) / TICK_MS);
+    const randomShock = (random() - 0.5) * volatility * 2;
+
+    let jerkMultiplier = 1;
+    if (segment.volatility === Volatility.HIGH && random() > 0.85) {
+      jerkMultiplier = 4;
+    } else if (random() > 0.9) {
+      jerkMultiplier = 2;
+    }
+
+    return price + trendStep + randomShock * jerkMultiplier;
+  },
+
+  [PathModel.GBM]: ({ random, price, anchorFrom, anchorTo, sigma, dt }) => {
+    return price * Math.exp(Math.log(anchorTo / anchorFrom) + sigma * Math.sqrt(dt) * gaussian(random));
+  },
+
+  [PathModel.BRIDGE]: ({ random, price, anchorFrom, anchorTo, sigma, dt, remaining }) => {
+    if (dt >= remaining) return anchorTo;
+    const deviation = Math.log(price / anchorFrom);
+    const mean = deviation * (1 - dt / remaining);
+    const std = sigma * Math.sqrt((dt * (remaining - dt)) / remaining);
+    return anchorTo * Math.exp(mean + std * gaussian(random));
+  },
+
+  [PathModel.OU]: ({ params, random, price, anchorFrom, anchorTo, sigma, dt }) => {
+    const theta = Math.max(params.meanReversion, 1e-6);
+    const decay = Math.exp(-theta * dt);
+    const mean = Math.log(price / anchorFrom) * decay;
+    const std = sigma * Math.sqrt((1 - decay * decay) / (2 * theta));
+    return anchorTo * Math.exp(mean + std * gaussian(random));
+  },
+
+  [PathModel.JUMP]: ({ params, random, price, anchorFrom, anchorTo, sigma, dt }) => {
+    let logReturn = Math.log(anchorTo / anchorFrom) + sigma * Math.sqrt(dt) * gaussian(random);
+    const jumps = poisson(random, params.jumpsPerHour * dt);
+    for (let i = 0; i < jumps; i++) {
+      logReturn += (params.jumpSize / 100) * gaussian(random);
+    }
+    return price * Math.exp(logReturn);
+  }
+};
+
+/** Volatility the real base volume is assumed to trade at */
+const VOLUME_REFERENCE_SIGMA = DEFAULT_SIGMA[Volatility.MEDIUM] / 100;
+
+/** Turnover per minute (quote currency) when there is no real volume to scale from */
+const DEFAULT_TURNOVER_PER_MINUTE = 250000;
+
+/** Floor of the trading activity, so a frozen price still trades a little */
+const MIN_ACTIVITY = 0.1;
+
+/** Spread of the lognormal volume noise */
+const VOLUME_NOISE = 0.5;
+
+/**
+ * Median volume per minute of the real klines in `history`, if it has any.
+ * Klines may be of any interval, each one is spread over the time to the next.
+ */
+export const estimateBaseVolume = (history: DataPoint[], window: number = 60): number | undefined => {
+  const klines = history.filter(p => !p.isSimulation && p.volume != null).slice(-(window + 1));
+  const volumes = klines
+    .slice(0, -1)
+    .map((p, i) => (p.volume as number) / Math.max(1, (klines[i + 1].time - p.time) / 60000))
+    .sort((a, b) => a - b);
+  return volumes.length > 0 ? volumes[Math.floor(volumes.length / 2)] : undefined;
+};
+
+export const resolveBaseVolume = (config: SimulationConfig): number =>
+  config.baseVolume ?? DEFAULT_TURNOVER_PER_MINUTE / config.startPrice;
+
+/**
+ * Turn a tick that moved from `open` to `point.price` over `dt` hours into a
+ * candle. High and low are sampled from the extremes of a Brownian bridge
+ * between the two prices, so they are always outside the body. Volume grows
+ * with the volatility and with moves that are large for it, such as jumps.
+ */
+export const synthesizeCandle = (
+  random: Random,
+  point: DataPoint,
+  open: number,
+  sigma: number,
+  dt: number,
+  baseVolume: number
+): DataPoint => {
+  const move = Math.log(point.price / open);
+  const variance = sigma * sigma * dt;
+  // Maximum of a bridge from 0 to b: (b + sqrt(b^2 - 2 variance ln U)) / 2
+  const extreme = (b: number) => (b + Math.sqrt(b * b - 2 * variance * Math.log(1 - random()))) / 2;
+  const high = open * Math.exp(extreme(move));
+  const low = open * Math.exp(-extreme(-move));
+
+  const expectedMove = VOLUME_REFERENCE_SIGMA * Math.sqrt(dt);
+  const activity = expectedMove > 0
+    ? Math.max(MIN_ACTIVITY, 0.5 * sigma / VOLUME_REFERENCE_SIGMA + 0.5 * Math.abs(move) / expectedMove)
+    : 0;
+  const noise = Math.exp(VOLUME_NOISE * gaussian(random) - VOLUME_NOISE * VOLUME_NOISE / 2);
+
+  return {
+    ...point,
+    open,
+    high,
+    low: Math.max(MIN_PRICE, low),
+    volume: baseVolume * dt * 60 * activity * noise
+  };
+};
+
+export interface SimulationEngineOptions {
+  seed?: number;
+  clock?: Clock;
+  /** Resume from an already emitted point instead of `config.startPrice` */
+  from?: DataPoint;
+}
+
+export interface SimulationEngine {
+  readonly seed: number;
+  /** Last emitted point (or the starting point) */
+  readonly last: DataPoint;
+  /** True once the final point at endTime has been emitted */
+  readonly finished: boolean;
+  /** Produce the point for `time` (clamped to endTime), or null once the simulation is over */
+  step: (time: number) => DataPoint | null;
+  /** Produce the point for the current clock time */
+  tick: () => DataPoint | null;
+  /**
+   * Every tick due up to `time`, TICK_MS apart and ending at `time` (or endTime).
+   * Used after a throttled or sleeping timer so the path has no gaps.
+   */
+  catchUp: (time: number, tickMs?: number) => DataPoint[];
+  /** Swap in an edited config (pause, retarget, ...) without losing the path so far */
+  update: (config: SimulationConfig) => void;
+}
+
+/** How fast a paused price in DRIFT mode is pulled back to the pause level, 1/hour */
+const PAUSE_REVERSION = 12;
+
+/**
+ * Pure price generator for a simulation. It owns no timers and touches no
+ * React state or network; feed it timestamps and it yields DataPoints.
+ * The last point is always emitted exactly at endTime.
+ *
+ * The scenario runs on "simulation time": wall time minus the time spent
+ * paused, so pauses push every keyframe back instead of skipping it.
+ */
+export const createSimulationEngine = (
+  initialConfig: SimulationConfig,
+  options: SimulationEngineOptions = {}
+): SimulationEngine => {
+  const seed = options.seed ?? initialConfig.seed ?? seedFromString(initialConfig.id);
+  const clock = options.clock ?? systemClock;
+  const random = createRandom(seed);
+  // Own stream for candle shapes, so the close path of a seed stays the same
+  const candleRandom = createRandom((seed ^ seedFromString('candles')) >>> 0);
+
+  let config = initialConfig;
+  let params = resolveModelParams(config);
+  let model = PATH_MODELS[config.model ?? PathModel.CLASSIC];
+  let segments = buildSegments(config);
+  let endTime = segments.length > 0 ? segments[segments.length - 1].endTime : config.startTime;
+
+  const configure = (next: SimulationConfig) => {
+    config = next;
+    params = resolveModelParams(next);
+    model = PATH_MODELS[next.model ?? PathModel.CLASSIC];
+    segments = buildSegments(next);
+    endTime = segments.length > 0 ? segments[segments.length - 1].endTime : next.startTime;
+  };
+
+  // Explicit sigma applies to the base volatility level, segments scale from it
+  const sigmaFor = (segment: Segment) =>
+    (params.sigma / 100) * (DEFAULT_SIGMA[segment.volatility] / DEFAULT_SIGMA[config.volatility]);
+
+  let last: DataPoint = options.from ?? {
+    time: config.startTime,
+    price: config.startPrice,
+    isSimulation: true
+  };
+  // Simulation time reached so far
+  let simTime = Math.min(last.time - (config.pausedMs ?? 0), endTime);
+  let pauseLevel: number | null = null;
+  let finished = segments.length === 0;
+
+  const pausedStep = (time: number): DataPoint => {
+    if (pauseLevel === null) pauseLevel = last.price;
+    let price = last.price;
+    let sigma = 0;
+    const dt = (time - last.time) / HOUR_MS;
+
+    if (config.pauseMode === PauseMode.DRIFT) {
+      sigma = sigmaFor(segmentAt(segments, simTime)) / 2;
+      const decay = Math.exp(-PAUSE_REVERSION * dt);
+      const std = sigma * Math.sqrt((1 - decay * decay) / (2 * PAUSE_REVERSION));
+      price = pauseLevel * Math.exp(Math.log(price / pauseLevel) * decay + std * gaussian(random));
+    }
+
+    last = synthesizeCandle(candleRandom, { time, price, isSimulation: true }, last.price, sigma, dt, resolveBaseVolume(config));
+    return last;
+  };
+
+  const step = (time: number): DataPoint | null => {
+    if (finished || time <= last.time) return null;
+    if (config.pausedAt != null) return pausedStep(time);
+    pauseLevel = null;
+
+    const offset = config.pausedMs ?? 0;
+    const target = Math.min(time - offset, endTime);
+    if (target <= simTime) return null;
+
+    // Sub-step at keyframe boundaries so every segment lands where it should
+    let price = last.price;
+    let sigma = 0;
+    let t = simTime;
+    while (t < target) {
+      const segment = segmentAt(segments, t);
+      const next = Math.min(target, segment.endTime);
+      sigma = sigmaFor(segment);
+      price = Math.max(MIN_PRICE, model({
+        segment,
+        params,
+        random,
+        price,
+        anchorFrom: anchorPrice(segment, t),
+        anchorTo: anchorPrice(segment, next),
+        sigma,
+        dt: (next - t) / HOUR_MS,
+        remaining: (segment.endTime - t) / HOUR_MS
+      }));
+      t = next;
+    }
+
+    simTime = target;
+    finished = target >= endTime;
+    const point: DataPoint = { time: target + offset, price, isSimulation: true };
+    last = synthesizeCandle(candleRandom, point, last.price, sigma, (point.time - last.time) / HOUR_MS, resolveBaseVolume(config));
+    return last;
+  };
+
+  const catchUp = (time: number, tickMs: number = TICK_MS): DataPoint[] => {
+    const points: DataPoint[] = [];
+    // Missed ticks keep the regular spacing; one closer than half a tick to `time` is folded into it
+    for (let t = last.time + tickMs; t < time - tickMs / 2 && !finished; t += tickMs) {
+      const point = step(t);
+      if (point) points.push(point);
+    }
+    const point = step(time);
+    if (point) points.push(point);
+    return points;
+  };
+
+  return {
+    seed,
+    get last() { return last; },
+    get finished() { return finished; },
+    step,
+    tick: () => step(clock.now()),
+    catchUp,
+    update: configure
+  };
+};
+
+export const DEFAULT_FOLLOWER_NOISE = 1;
+
+/** How fast a follower's own noise decays back onto the beta-implied path, 1/hour */
+const FOLLOWER_REVERSION = 6;
+
+export interface FollowerEngine {
+  readonly coinId: string;
+  /** Derived candle for a point of the leader */
+  step: (leader: DataPoint) => DataPoint;
+}
+
+/**
+ * Price of a coin correlated with the simulated one:
+ * base * (leader / leaderStart)^beta, plus its own mean-reverting noise.
+ * The leader's high and low map through the same formula; volume keeps the
+ * leader's turnover in quote currency.
+ */
+export const createFollowerEngine = (
+  config: SimulationConfig,
+  follower: CorrelatedFollower,
+  options: SimulationEngineOptions = {}
+): FollowerEngine => {
+  const baseSeed = options.seed ?? config.seed ?? seedFromString(config.id);
+  const random = createRandom((baseSeed ^ seedFromString(follower.coinId)) >>> 0);
+  const sigma = (follower.noise ?? DEFAULT_FOLLOWER_NOISE) / 100;
+  const basePrice = follower.basePrice ?? options.from?.price ?? 0;
+
+  let lastTime = options.from?.time ?? config.startTime;
+  let lastPrice = options.from?.price ?? basePrice;
+  let deviation = 0;
+
+  return {
+    coinId: follower.coinId,
+    step: (leader) => {
+      const dt = Math.max(0, leader.time - lastTime) / HOUR_MS;
+      const decay = Math.exp(-FOLLOWER_REVERSION * dt);
+      const std = sigma * Math.sqrt((1 - decay * decay) / (2 * FOLLOWER_REVERSION));
+      deviation = deviation * decay + std * gaussian(random);
+      lastTime = Math.max(lastTime, leader.time);
+
+      const derive = (leaderPrice: number) =>
+        Math.max(MIN_PRICE, basePrice * Math.exp(follower.beta * Math.log(leaderPrice / config.startPrice) + deviation));
+      const open = lastPrice;
+      const price = derive(leader.price);
+      const wicks = [open, price, derive(leader.high ?? leader.price), derive(leader.low ?? leader.price)];
+      lastPrice = price;
+
+      return {
+        time: leader.time,
+        price,
+        open,
+        high: Math.max(...wicks),
+        low: Math.min(...wicks),
+        volume: leader.volume != null ? leader.volume * leader.price / price : undefined,
+        isSimulation: true
+      };
+    }
+  };
+};
+
+/** Revert length per 1% of gap between the final price and the market */
+const REVERT_MS_PER_PERCENT = 60 * 1000;
+const MIN_REVERT_MS = 60 * 1000;
+const MAX_REVERT_MS = 30 * 60 * 1000;
+
+/** How fast held / reverting noise decays, 1/hour */
+const REVERT_NOISE_REVERSION = 12;
+
+/** Steepness of the EXPONENTIAL revert curve */
+const REVERT_EXPONENT = 4;
+
+const REVERT_CURVES: Record<RevertCurve, (u: number) => number> = {
+  [RevertCurve.LINEAR]: u => u,
+  [RevertCurve.EXPONENTIAL]: u => (1 - Math.exp(-REVERT_EXPONENT * u)) / (1 - Math.exp(-REVERT_EXPONENT)),
+  [RevertCurve.BRIDGE]: u => u
+};
+
+/** Fill in revert defaults for a path ending at `fromPrice` with the market at `livePrice` */
+export const resolveRevertSettings = (
+  config: SimulationConfig,
+  fromPrice: number,
+  livePrice: number
+): Required<RevertSettings> => {
+  const settings = config.revert ?? {};
+  const gapPercent = Math.abs(Math.log(livePrice / fromPrice)) * 100;
+  return {
+    holdMs: Math.max(0, settings.holdMs ?? 0),
+    durationMs: settings.durationMs
+      ?? Math.round(Math.min(MAX_REVERT_MS, Math.max(MIN_REVERT_MS, gapPercent * REVERT_MS_PER_PERCENT)) / 1000) * 1000,
+    curve: settings.curve ?? RevertCurve.EXPONENTIAL,
+    noise: settings.noise ?? DEFAULT_SIGMA[config.volatility]
+  };
+};
+
+export interface RevertEngine {
+  readonly last: DataPoint;
+  /** True once the live price has been reached */
+  readonly finished: boolean;
+  /** Point for `time` heading towards the market price `livePrice` */
+  step: (time: number, livePrice: number) => DataPoint | null;
+  /** Every tick due up to `time`, like SimulationEngine.catchUp */
+  catchUp: (time: number, livePrice: number, tickMs?: number) => DataPoint[];
+}
+
+/**
+ * Path back to the live market after a simulation: hold the last price for
+ * holdMs (with noise), then close the gap over durationMs along the chosen
+ * curve. The last point lands exactly on the live price. `from` may be later
+ * than `startedAt` when a runner takes over half way.
+ */
+export const createRevertEngine = (
+  settings: Required<RevertSettings>,
+  startedAt: number,
+  from: DataPoint,
+  seed: number,
+  baseVolume: number
+): RevertEngine => {
+  const random = createRandom((seed ^ seedFromString('revert')) >>> 0);
+  const candleRandom = createRandom((seed ^ seedFromString('revert-candles')) >>> 0);
+  const sigma = settings.noise / 100;
+  const revertStart = startedAt + settings.holdMs;
+  const revertEnd = revertStart + settings.durationMs;
+  const curve = REVERT_CURVES[settings.curve];
+
+  let last: DataPoint = { ...from, isSimulation: false };
+  let finished = false;
+  let deviation = 0; // Log-distance from the anchor
+  let anchorFrom: DataPoint | null = null; // Where the move towards the market began
+
+  const step = (time: number, livePrice: number): DataPoint | null => {
+    if (finished || time <= last.time) return null;
+    const dt = (time - last.time) / HOUR_MS;
+
+    // Each tick becomes a candle opening at the previous close
+    const emit = (price: number) => {
+      last = synthesizeCandle(candleRandom, { time, price, isSimulation: false }, last.price, sigma, dt, baseVolume);
+      return last;
+    };
+
+    if (time >= revertEnd) {
+      finished = true;
+      return emit(livePrice);
+    }
+
+    let anchor = from.price;
+    let damping = 1;
+    if (time > revertStart) {
+      if (!anchorFrom) {
+        // Held noise becomes part of the starting level
+        anchorFrom = { time: Math.max(revertStart, last.time), price: last.price };
+        deviation = 0;
+      }
+      const u = (time - anchorFrom.time) / (revertEnd - anchorFrom.time);
+      anchor = Math.exp(Math.log(anchorFrom.price) + curve(u) * Math.log(livePrice / anchorFrom.price));
+
+      if (settings.curve === RevertCurve.BRIDGE) {
+        const remaining = (revertEnd - last.time) / HOUR_MS;
+        deviation = deviation * (remaining - dt) / remaining + sigma * Math.sqrt(dt * (remaining - dt) / remaining) * gaussian(random);
+        return emit(Math.max(MIN_PRICE, anchor * Math.exp(deviation)));
+      }
+      damping = 1 - u;
+    }
+
+    const decay = Math.exp(-REVERT_NOISE_REVERSION * dt);
+    deviation = deviation * decay + sigma * Math.sqrt((1 - decay * decay) / (2 * REVERT_NOISE_REVERSION)) * gaussian(random);
+    return emit(Math.max(MIN_PRICE, anchor * Math.exp(deviation * damping)));
+  };
+
+  const catchUp = (time: number, livePrice: number, tickMs: number = TICK_MS): DataPoint[] => {
+    const points: DataPoint[] = [];
+    for (let t = last.time + tickMs; t < time - tickMs / 2 && !finished; t += tickMs) {
+      const point = step(t, livePrice);
+      if (point) points.push(point);
+    }
+    const point = step(time, livePrice);
+    if (point) points.push(point);
+    return points;
+  };
+
+  return {
+    get last() { return last; },
+    get finished() { return finished; },
+    step,
+    catchUp
+  };
+};
+
+/**
+ * Replay a whole simulation path at a fixed tick interval. Handy for
+ * reproducing a reported run from its seed.
+ */
+export function* simulatePath(
+  config: SimulationConfig,
+  seed?: number,
+  tickMs: number = TICK_MS
+): Generator<DataPoint> {
+  const engine = createSimulationEngine(config, { seed });
+  for (let time = config.startTime + tickMs; !engine.finished; time += tickMs) {
+    const point = engine.step(time);
+    if (point) yield point;
+  }
+}
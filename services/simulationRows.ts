@@ -0,0 +1,172 @@
+import {
+  CorrelatedFollower,
+  DataPoint,
+  Drawing,
+  Keyframe,
+  PathModel,
+  PathModelParams,
+  PauseMode,
+  RevertSettings,
+  SimulationConfig,
+  SimulationTrigger,
+  Volatility
+} from '../types';
+
+/**
+ * Mapping between SimulationConfig and rows of the Supabase `simulations` table.
+ * Kept free of any client so the browser and other processes can share it.
+ */
+
+/** How often a claim holder refreshes heartbeat_at */
+export const HEARTBEAT_MS = 5000;
+
+/** A holder silent for this long loses its claim (see claim_simulations) */
+export const CLAIM_STALE_MS = 15000;
+
+/** Row of `simulations`, as supabase/migrations create it */
+export interface SimulationRow {
+  id: string;
+  coin_id: string;
+  start_price: number;
+  target_price: number;
+  start_time: number;
+  duration_ms: number;
+  end_time: number;
+  volatility: string;
+  is_active: boolean;
+  created_at: string;
+  seed: number | null;
+  model: string;
+  model_params: PathModelParams;
+  keyframes: Keyframe[] | null;
+  followers: CorrelatedFollower[] | null;
+  paused_at: number | null;
+  pause_mode: string | null;
+  paused_ms: number;
+  status: 'pending' | 'running';
+  trigger: SimulationTrigger | null;
+  claimed_by: string | null;
+  heartbeat_at: number | null;
+  revert: RevertSettings | null;
+  revert_started_at: number | null;
+  base_volume: number | null;
+  drawings: Drawing[] | null;
+}
+
+/** Row of `simulation_points`; open to volume are null on rows from before OHLCV */
+export interface SimulationPointRow {
+  id: number;
+  simulation_id: string;
+  time: number;
+  price: number;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  volume: number | null;
+  is_simulation: boolean;
+}
+
+/** The columns a chart point is read from */
+export type SimulationPointColumns = Omit<SimulationPointRow, 'id' | 'simulation_id'>;
+
+export const simulationFromRow = (row: SimulationRow): SimulationConfig => {
+  let volatility = Volatility.MEDIUM;
+  if (row.volatility === 'low') volatility = Volatility.LOW;
+  if (row.volatility === 'high') volatility = Volatility.HIGH;
+
+  return {
+    id: row.id,
+    supabaseId: row.id,
+    active: row.is_active,
+    coinId: row.coin_id,
+    startPrice: Number(row.start_price),
+    targetPrice: Number(row.target_price),
+    startTime: Number(row.start_time),
+    durationMs: Number(row.duration_ms),
+    endTime: Number(row.end_time),
+    volatility,
+    keyframes: row.keyframes || undefined,
+    followers: row.followers || undefined,
+    model: (row.model as PathModel) || PathModel.CLASSIC,
+    modelParams: row.model_params || undefined,
+    seed: row.seed != null ? Number(row.seed) : undefined,
+    baseVolume: row.base_volume != null ? Number(row.base_volume) : undefined,
+    pausedAt: row.paused_at != null ? Number(row.paused_at) : undefined,
+    pauseMode: (row.pause_mode as PauseMode) || undefined,
+    pausedMs: row.paused_ms != null ? Number(row.paused_ms) : undefined,
+    pending: row.status === 'pending',
+    trigger: row.trigger || undefined,
+    revert: row.revert || undefined,
+    revertStartedAt: row.revert_started_at != null ? Number(row.revert_started_at) : undefined,
+    drawings: row.drawings || undefined,
+    claimedBy: row.claimed_by || undefined,
+    heartbeatAt: row.heartbeat_at != null ? Number(row.heartbeat_at) : undefined,
+    createdAt: new Date(row.created_at).getTime()
+  };
+};
+
+/** Insert payload for a new simulation (id and created_at come from the database) */
+export const simulationToRow = (config: Omit<SimulationConfig, 'id' | 'createdAt'>) => ({
+  coin_id: config.coinId,
+  start_price: config.startPrice,
+  target_price: config.targetPrice,
+  start_time: config.startTime,
+  duration_ms: config.durationMs,
+  end_time: config.endTime,
+  volatility: config.volatility,
+  keyframes: config.keyframes,
+  followers: config.followers,
+  model: config.model,
+  model_params: config.modelParams,
+  seed: config.seed,
+  base_volume: config.baseVolume,
+  status: config.pending ? 'pending' : 'running',
+  trigger: config.trigger,
+  revert: config.revert,
+  claimed_by: config.claimedBy ?? null,
+  heartbeat_at: config.heartbeatAt ?? null,
+  is_active: config.active
+});
+
+/** Fields a simulation may change after insert (trigger, pause, extend, retarget, revert, drawings, stop) */
+export const simulationUpdateRow = (config: SimulationConfig) => ({
+  status: config.pending ? 'pending' : 'running',
+  start_price: config.startPrice,
+  start_time: config.startTime,
+  followers: config.followers,
+  target_price: config.targetPrice,
+  duration_ms: config.durationMs,
+  end_time: config.endTime,
+  keyframes: config.keyframes,
+  paused_at: config.pausedAt ?? null,
+  pause_mode: config.pauseMode ?? null,
+  paused_ms: config.pausedMs ?? 0,
+  revert: config.revert,
+  revert_started_at: config.revertStartedAt ?? null,
+  drawings: config.drawings ?? null,
+  is_active: config.active
+});
+
+const optionalNumber = (value: number | null) => value != null ? Number(value) : undefined;
+
+/** Candle from a row of `simulation_points`; rows from before OHLCV only have a price */
+export const pointFromRow = (row: SimulationPointColumns): DataPoint => ({
+  time: Number(row.time),
+  price: Number(row.price),
+  open: optionalNumber(row.open),
+  high: optionalNumber(row.high),
+  low: optionalNumber(row.low),
+  volume: optionalNumber(row.volume),
+  isSimulation: row.is_simulation
+});
+
+export const pointToRow = (simulationId: string, point: DataPoint) => ({
+  simulation_id: simulationId,
+  time: point.time,
+  price: point.price,
+  open: point.open,
+  high: point.high,
+  low: point.low,
+  volume: point.volume,
+  is_simulation: point.isSimulation !== false
+});
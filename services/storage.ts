@@ -1,27 +1,46 @@
-import { SimulationConfig } from '../types';
+import { Drawing, IndicatorConfig, MarketProviderId, ScenarioPreset, SimulationConfig } from '../types';
 
 const STORAGE_KEYS = {
   ACTIVE_SIMULATION: 'cryptosim_active_simulation',
   SIMULATION_HISTORY: 'cryptosim_history',
+  PRESETS: 'cryptosim_presets',
+  SCHEDULED: 'cryptosim_scheduled',
+  CONTROLLER_ID: 'cryptosim_controller_id',
+  INDICATORS: 'cryptosim_indicators',
+  DRAWINGS: 'cryptosim_drawings',
+  MARKET_PROVIDER: 'cryptosim_market_provider',
 };
 
 export const storage = {
-  // Save active simulation
-  saveSimulation: (config: SimulationConfig) => {
-    localStorage.setItem(STORAGE_KEYS.ACTIVE_SIMULATION, JSON.stringify(config));
+  // Save active simulations (at most one per coin)
+  saveSimulations: (configs: SimulationConfig[]) => {
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_SIMULATION, JSON.stringify(configs));
   },
 
-  // Get active simulation
-  getSimulation: (): SimulationConfig | null => {
+  // Get active simulations
+  getSimulations: (): SimulationConfig[] => {
     const data = localStorage.getItem(STORAGE_KEYS.ACTIVE_SIMULATION);
-    return data ? JSON.parse(data) : null;
+    if (!data) return [];
+    const parsed = JSON.parse(data);
+    // Older builds stored a single config object
+    return Array.isArray(parsed) ? parsed : [parsed];
   },
 
-  // Clear active simulation
-  clearSimulation: () => {
+  // Clear all active simulations
+  clearSimulations: () => {
     localStorage.removeItem(STORAGE_KEYS.ACTIVE_SIMULATION);
   },
 
+  // Simulations waiting for their trigger (several per coin allowed)
+  saveScheduledSimulations: (configs: SimulationConfig[]) => {
+    localStorage.setItem(STORAGE_KEYS.SCHEDULED, JSON.stringify(configs));
+  },
+
+  getScheduledSimulations: (): SimulationConfig[] => {
+    const data = localStorage.getItem(STORAGE_KEYS.SCHEDULED);
+    return data ? JSON.parse(data) : [];
+  },
+
   // Save completed simulation to history log
   archiveSimulation: (config: SimulationConfig) => {
     const historyJson = localStorage.getItem(STORAGE_KEYS.SIMULATION_HISTORY);
@@ -34,5 +53,56 @@ export const storage = {
   getArchivedSimulations: (): SimulationConfig[] => {
     const historyJson = localStorage.getItem(STORAGE_KEYS.SIMULATION_HISTORY);
     return historyJson ? JSON.parse(historyJson) : [];
+  },
+
+  // Chart indicators picked by the user
+  saveIndicators: (configs: IndicatorConfig[]) => {
+    localStorage.setItem(STORAGE_KEYS.INDICATORS, JSON.stringify(configs));
+  },
+
+  getIndicators: (): IndicatorConfig[] => {
+    const data = localStorage.getItem(STORAGE_KEYS.INDICATORS);
+    return data ? JSON.parse(data) : [];
+  },
+
+  // Chart drawings, kept per coin
+  saveDrawings: (coinId: string, drawings: Drawing[]) => {
+    const data = localStorage.getItem(STORAGE_KEYS.DRAWINGS);
+    const byCoin: Record<string, Drawing[]> = data ? JSON.parse(data) : {};
+    if (drawings.length > 0) byCoin[coinId] = drawings;
+    else delete byCoin[coinId];
+    localStorage.setItem(STORAGE_KEYS.DRAWINGS, JSON.stringify(byCoin));
+  },
+
+  getDrawings: (coinId: string): Drawing[] => {
+    const data = localStorage.getItem(STORAGE_KEYS.DRAWINGS);
+    return data ? JSON.parse(data)[coinId] ?? [] : [];
+  },
+
+  // Global market data source picked in the header
+  saveMarketProvider: (id: MarketProviderId) => {
+    localStorage.setItem(STORAGE_KEYS.MARKET_PROVIDER, id);
+  },
+
+  getMarketProvider: (): string | null => localStorage.getItem(STORAGE_KEYS.MARKET_PROVIDER),
+
+  // Stable name this browser uses when claiming simulations
+  getControllerId: (): string => {
+    let id = localStorage.getItem(STORAGE_KEYS.CONTROLLER_ID);
+    if (!id) {
+      id = `tab:${Math.random().toString(36).slice(2, 10)}`;
+      localStorage.setItem(STORAGE_KEYS.CONTROLLER_ID, id);
+    }
+    return id;
+  },
+
+  // User-defined scenario presets (built-ins live in services/presets)
+  getPresets: (): ScenarioPreset[] => {
+    const data = localStorage.getItem(STORAGE_KEYS.PRESETS);
+    return data ? JSON.parse(data) : [];
+  },
+
+  savePresets: (presets: ScenarioPreset[]) => {
+    localStorage.setItem(STORAGE_KEYS.PRESETS, JSON.stringify(presets));
   }
 };
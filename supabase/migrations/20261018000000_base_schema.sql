@@ -0,0 +1,42 @@
+-- Tables the app has always used. Guarded so the migration is a no-op on the
+-- hosted project and bootstraps a fresh local stack (`supabase start`).
+create table if not exists public.simulations (
+  id uuid primary key default gen_random_uuid(),
+  coin_id text not null,
+  start_price numeric not null,
+  target_price numeric not null,
+  start_time bigint not null,
+  duration_ms bigint not null,
+  end_time bigint not null,
+  volatility text not null default 'medium',
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.simulation_points (
+  id bigint generated by default as identity primary key,
+  simulation_id uuid not null references public.simulations (id) on delete cascade,
+  time bigint not null,
+  price numeric not null,
+  is_simulation boolean not null default true
+);
+
+create index if not exists simulation_points_simulation_time_idx
+  on public.simulation_points (simulation_id, time);
+
+create table if not exists public.tickers (
+  symbol text primary key,
+  price numeric not null,
+  is_simulation boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'simulation_points') then
+    alter publication supabase_realtime add table public.simulation_points;
+  end if;
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'tickers') then
+    alter publication supabase_realtime add table public.tickers;
+  end if;
+end $$;
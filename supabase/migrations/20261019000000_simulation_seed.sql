@@ -0,0 +1,3 @@
+-- Engine seed, so a reported simulation can be replayed point for point
+alter table public.simulations
+  add column if not exists seed bigint;
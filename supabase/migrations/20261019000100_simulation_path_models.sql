@@ -0,0 +1,4 @@
+-- Stochastic path model selected per simulation (see PathModel in types.ts)
+alter table public.simulations
+  add column if not exists model text not null default 'classic',
+  add column if not exists model_params jsonb not null default '{}'::jsonb;
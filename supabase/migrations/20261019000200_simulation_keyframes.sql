@@ -0,0 +1,3 @@
+-- Multi-waypoint scenarios. target_price / duration_ms mirror the last keyframe
+alter table public.simulations
+  add column if not exists keyframes jsonb;
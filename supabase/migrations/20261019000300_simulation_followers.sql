@@ -0,0 +1,3 @@
+-- Coins that follow the simulated one with a beta (derived prices go to tickers)
+alter table public.simulations
+  add column if not exists followers jsonb;
@@ -0,0 +1,13 @@
+-- Pause / resume of running simulations. end_time already includes paused_ms
+alter table public.simulations
+  add column if not exists paused_at bigint,
+  add column if not exists pause_mode text,
+  add column if not exists paused_ms bigint not null default 0;
+
+-- Viewers follow pauses, extensions and retargets through realtime updates
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'simulations') then
+    alter publication supabase_realtime add table public.simulations;
+  end if;
+end $$;
@@ -0,0 +1,6 @@
+-- Scheduled simulations wait in 'pending' until their trigger fires.
+-- start_time / end_time / start_price of a pending row are provisional
+alter table public.simulations
+  add column if not exists status text not null default 'running'
+    check (status in ('pending', 'running')),
+  add column if not exists trigger jsonb;
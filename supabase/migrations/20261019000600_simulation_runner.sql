@@ -0,0 +1,34 @@
+-- Whoever generates the ticks of a simulation (a controller tab or a headless
+-- runner) holds a claim and refreshes heartbeat_at (epoch ms) while it runs.
+alter table public.simulations
+  add column if not exists claimed_by text,
+  add column if not exists heartbeat_at bigint;
+
+-- Claim active simulations that are free, already ours, or whose holder went
+-- quiet for p_stale_ms. Optionally limited to p_ids. Returns the claimed rows.
+create or replace function public.claim_simulations(
+  p_holder text,
+  p_stale_ms bigint default 15000,
+  p_ids uuid[] default null
+)
+returns setof public.simulations
+language sql
+as $$
+  with now_ms as (select (extract(epoch from now()) * 1000)::bigint as ms),
+  claimable as (
+    select s.id
+      from public.simulations s, now_ms
+     where s.is_active
+       and (p_ids is null or s.id = any (p_ids))
+       and (s.claimed_by is null
+            or s.claimed_by = p_holder
+            or coalesce(s.heartbeat_at, 0) < now_ms.ms - p_stale_ms)
+       for update of s skip locked
+  )
+  update public.simulations s
+     set claimed_by = p_holder,
+         heartbeat_at = (select ms from now_ms)
+    from claimable
+   where s.id = claimable.id
+  returning s.*;
+$$;
@@ -0,0 +1,6 @@
+-- Revert-to-market phase after the simulated path. Points of the revert are
+-- stored in simulation_points with is_simulation = false; the row stays
+-- active until the live price is reached.
+alter table public.simulations
+  add column if not exists revert jsonb,
+  add column if not exists revert_started_at bigint;
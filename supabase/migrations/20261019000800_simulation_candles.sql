@@ -0,0 +1,11 @@
+-- Simulated ticks are stored as OHLCV candles, like Binance klines. Points
+-- written before this migration only have the close in `price`.
+alter table public.simulation_points
+  add column if not exists open numeric,
+  add column if not exists high numeric,
+  add column if not exists low numeric,
+  add column if not exists volume numeric;
+
+-- Real volume per minute before the start, synthetic volume is scaled from it
+alter table public.simulations
+  add column if not exists base_volume numeric;
@@ -0,0 +1,4 @@
+-- Chart drawings the controller attached to a simulation, shown to viewers
+-- and in widgets. Array of { id, type, points: [{ time, price }], color, text }.
+alter table public.simulations
+  add column if not exists drawings jsonb;
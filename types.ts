@@ -1,14 +1,55 @@
 export interface Coin {
   id: string;
-  symbol: string; // Binance symbol format (e.g., BTCUSDT)
+  symbol: string; // Base asset (e.g., BTC); providers build their own pair names from it
   name: string;
   color: string;
   basePrice: number; // Fallback price
+  provider?: MarketProviderId; // Market data source for this coin, instead of the global one
 }
 
+/** Rolling 24h ticker of a coin's market */
+export interface TickerStats {
+  price: number;
+  changePercent: number;
+  high: number;
+  low: number;
+  volume: number; // Base asset
+  quoteVolume: number; // In the quote currency (USDT / USD)
+}
+
+export enum MarketProviderId {
+  BINANCE = 'binance',
+  COINBASE = 'coinbase',
+  KRAKEN = 'kraken',
+  FILE = 'file',
+  MOCK = 'mock',
+  REPLAY = 'replay'
+}
+
+export type MarketFixtureEvent =
+  | { type: 'price'; symbol: string; time: number; price: number }
+  | { type: 'kline'; symbol: string; time: number; kline: DataPoint; closed: boolean };
+
+/** Market data captured from a live provider, fed back offline by the replay provider */
+export interface MarketFixture {
+  version: 1;
+  startedAt: number; // Recording start: klines lead up to it, events follow it
+  endedAt: number;
+  klines: Record<string, Partial<Record<KlineInterval, DataPoint[]>>>; // By coin symbol
+  events: MarketFixtureEvent[]; // Time received, in order
+}
+
+/**
+ * Chart point. Klines and simulated ticks are candles: `price` is the close
+ * and the OHLCV fields are set; plain live quotes only carry `price`.
+ */
 export interface DataPoint {
   time: number; // timestamp
-  price: number;
+  price: number; // Close
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number; // In coin units, like Binance kline volume
   isSimulation?: boolean;
 }
 
@@ -18,20 +59,137 @@ export enum Volatility {
   HIGH = 'high'
 }
 
+export enum PathModel {
+  CLASSIC = 'classic', // Linear trend + uniform shocks (original behaviour)
+  GBM = 'gbm',         // Geometric Brownian motion
+  BRIDGE = 'bridge',   // Brownian bridge, lands exactly on the target
+  OU = 'ou',           // Ornstein-Uhlenbeck, mean-reverting to the target
+  JUMP = 'jump'        // GBM + Poisson jumps (Merton)
+}
+
+export interface PathModelParams {
+  sigma?: number; // Volatility, % per sqrt(hour). Defaults from Volatility level
+  meanReversion?: number; // OU speed, 1/hour
+  jumpsPerHour?: number; // Jump frequency
+  jumpSize?: number; // Jump size (std of log jump), %
+}
+
+export enum Easing {
+  LINEAR = 'linear',
+  EASE_IN = 'easeIn',
+  EASE_OUT = 'easeOut',
+  EASE_IN_OUT = 'easeInOut'
+}
+
+/**
+ * Scenario waypoint. Volatility and easing describe the segment that
+ * arrives at this keyframe from the previous one (or from startPrice).
+ */
+export interface Keyframe {
+  offsetMs: number; // From startTime
+  price: number;
+  volatility: Volatility;
+  easing: Easing;
+}
+
+/** Coin dragged along by a simulation on another ("leader") coin */
+export interface CorrelatedFollower {
+  coinId: string;
+  beta: number; // Sensitivity to the leader's log return
+  noise?: number; // Own noise, % per sqrt(hour)
+  basePrice?: number; // Follower price when the simulation started
+}
+
+export enum PauseMode {
+  FREEZE = 'freeze', // Price stands still
+  DRIFT = 'drift'    // Price wanders sideways around the pause level
+}
+
+export enum RevertCurve {
+  LINEAR = 'linear',           // Even pace back to the market
+  EXPONENTIAL = 'exponential', // Most of the way early, then eases in
+  BRIDGE = 'bridge'            // Brownian bridge pinned to the live price at the end
+}
+
+/** What happens after the simulated path ends; unset fields get defaults when the revert starts */
+export interface RevertSettings {
+  holdMs?: number;     // Keep the final simulated price this long first
+  durationMs?: number; // Default scales with the gap to the market
+  curve?: RevertCurve;
+  noise?: number;      // % per sqrt(hour), default follows the simulation volatility
+}
+
+export enum TriggerType {
+  TIME = 'time',              // At a wall-clock time
+  PRICE_ABOVE = 'priceAbove', // When the real price rises to a level
+  PRICE_BELOW = 'priceBelow'  // When the real price falls to a level
+}
+
+export interface SimulationTrigger {
+  type: TriggerType;
+  startAt?: number; // TIME
+  price?: number;   // PRICE_ABOVE / PRICE_BELOW
+}
+
 export interface SimulationConfig {
   id: string; // Internal ID
   supabaseId?: string; // ID of the record in Supabase
   active: boolean;
   coinId: string;
   startPrice: number;
-  targetPrice: number;
+  targetPrice: number; // Price of the last keyframe
   startTime: number;
-  durationMs: number;
+  durationMs: number; // Offset of the last keyframe
   endTime: number;
   volatility: Volatility;
+  keyframes?: Keyframe[]; // Absent on single-target simulations
+  followers?: CorrelatedFollower[];
+  model?: PathModel; // Defaults to CLASSIC
+  modelParams?: PathModelParams;
+  seed?: number; // Engine PRNG seed, same seed reproduces the same path
+  baseVolume?: number; // Real volume per minute before the start, synthetic volume scales from it
+  pausedAt?: number; // Set while paused
+  pauseMode?: PauseMode;
+  pausedMs?: number; // Total time spent paused so far, endTime already includes it
+  pending?: boolean; // Scheduled and waiting for its trigger, start fields are provisional
+  trigger?: SimulationTrigger;
+  revert?: RevertSettings; // Fully resolved once the revert has started
+  revertStartedAt?: number; // Set once the price is heading back to the market
+  drawings?: Drawing[]; // Annotations the controller attached for viewers and widgets
+  claimedBy?: string; // Controller tab or headless runner generating the ticks
+  heartbeatAt?: number;
   createdAt: number;
 }
 
+/** What the controller submits to start a simulation */
+export interface SimulationDraft {
+  keyframes: Keyframe[];
+  volatility: Volatility;
+  model: PathModel;
+  modelParams: PathModelParams;
+  followers?: CorrelatedFollower[];
+  trigger?: SimulationTrigger; // Absent = start right away
+  revert?: RevertSettings;
+}
+
+/** Keyframe of a preset, priced relative to the price at start */
+export interface PresetKeyframe {
+  offsetMs: number;
+  change: number; // % from start price
+  volatility: Volatility;
+  easing: Easing;
+}
+
+export interface ScenarioPreset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  volatility: Volatility;
+  model: PathModel;
+  modelParams?: PathModelParams;
+  keyframes: PresetKeyframe[];
+}
+
 export enum TimeFrame {
   M1 = '1м',
   M5 = '5м',
@@ -42,6 +200,68 @@ export enum TimeFrame {
   D7 = '7д'
 }
 
+/** Binance kline intervals the history is fetched at */
+export type KlineInterval = '1m' | '5m' | '15m' | '1h';
+
+export enum ChartType {
+  LINE = 'line',
+  CANDLES = 'candles',
+  OHLC = 'ohlc',
+  HEIKIN_ASHI = 'heikinAshi'
+}
+
+/** Candle of one chart interval, aggregated from DataPoints */
+export interface Candle {
+  time: number; // Interval start
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  isSimulation: boolean; // At least one simulated point inside
+}
+
+export enum IndicatorType {
+  SMA = 'sma',
+  EMA = 'ema',
+  VWAP = 'vwap',
+  BOLLINGER = 'bb',
+  RSI = 'rsi',
+  MACD = 'macd'
+}
+
+/** Indicator picked by the user; params follow the order of its definition (see services/indicators) */
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: number[];
+  color: string;
+}
+
+export enum DrawingType {
+  HORIZONTAL = 'hline',
+  TREND = 'trend',
+  RECTANGLE = 'rect',
+  FIBONACCI = 'fib',
+  TEXT = 'text'
+}
+
+/** Point of a drawing in chart coordinates, so it follows pan, zoom and timeframe changes */
+export interface ChartAnchor {
+  time: number;
+  price: number;
+}
+
+/** Chart annotation; one anchor for levels and notes, two for the rest */
+export interface Drawing {
+  id: string;
+  type: DrawingType;
+  points: ChartAnchor[];
+  color: string;
+  text?: string; // Notes only
+  simulationId?: string; // Set when attached to a simulation instead of kept locally
+}
+
 // API Response types
 export type BinanceKline = [
   number, // Open time
@@ -56,4 +276,34 @@ export type BinanceKline = [
   string, // Taker buy base asset volume
   string, // Taker buy quote asset volume
   string  // Ignore
-];
\ No newline at end of file
+];
+// Coinbase Exchange candles come newest first, in seconds
+export type CoinbaseCandle = [
+  number, // Open time (s)
+  number, // Low
+  number, // High
+  number, // Open
+  number, // Close
+  number  // Volume
+];
+
+export type KrakenOhlc = [
+  number, // Open time (s)
+  string, // Open
+  string, // High
+  string, // Low
+  string, // Close
+  string, // VWAP
+  string, // Volume
+  number  // Number of trades
+];
+
+// Only the fields read of a Kraken ticker
+export interface KrakenTicker {
+  c: [string, string]; // Last trade: price, lot volume
+}
+
+export interface KrakenResponse<T> {
+  error: string[];
+  result?: Record<string, T>; // By Kraken's pair name, OHLC adds a `last` cursor
+}